@@ -1,37 +1,166 @@
+import { existsSync, type FSWatcher, watch } from "node:fs"
+import { appendFile, link, open, readdir, rename, rm, stat, utimes } from "node:fs/promises"
 import { homedir } from "node:os"
-import { dirname, isAbsolute, join } from "node:path"
+import { basename, dirname, isAbsolute, join, relative, sep } from "node:path"
 import { type Plugin, tool } from "@opencode-ai/plugin"
 import type { OpencodeClient } from "@opencode-ai/sdk"
 
 interface Memory {
+  id: string
   ts: string
   type: string
   scope: string
   content: string
   issue?: string
   tags?: string[]
+  rev?: number
+  expires?: string
+  links?: MemoryLinks
 }
 
+// Typed references from one memory to others, by id.
+type LinkKind = "relates_to" | "supersedes" | "blocks"
+type MemoryLinks = Partial<Record<LinkKind, string[]>>
+
+const LINK_KINDS: LinkKind[] = ["relates_to", "supersedes", "blocks"]
+
+// What memory_remember does when new content resembles an existing memory.
+type DuplicateAction = "off" | "warn" | "merge" | "update"
+
 interface LoggerSettings {
   enabled: boolean
   scopes: string[]
   dir: string
+  // A session file is rotated to <name>.1.jsonl before it would grow past maxFileBytes (0: never).
+  maxFileBytes: number
+  // Rotated files kept per session file (0: all), gzip-compressed when compress is set.
+  maxFiles: number
+  compress: boolean
+  // Longer output, parts and args fields of an event are cut to this many characters (0: never).
+  maxFieldChars: number
+  // Session directories untouched for maxAge (e.g. 30d; "" keeps them) are pruned, oldest
+  // first, as are the oldest ones while all sessions take more than maxTotalBytes (0: no cap).
+  maxAge: string
+  maxTotalBytes: number
+}
+
+interface InjectSettings {
+  enabled: boolean
+  maxChars: number
+  decisionsPerScope: number
+}
+
+interface SemanticSettings {
+  enabled: boolean
+  weight: number
+  minScore: number
+  dimensions: number
+  embedder: string
+}
+
+interface ExpirySettings {
+  ttl: Record<string, string>
+  sweep: boolean
+}
+
+// Fields a type can require on top of type, scope and content.
+type RequiredField = "issue" | "tags" | "expires"
+
+interface TypeDefinition {
+  description: string
+  required?: RequiredField[]
+}
+
+interface DuplicateSettings {
+  action: DuplicateAction
+  threshold: number
+}
+
+interface RedactionSettings {
+  enabled: boolean
+  // Built-in detectors to run, by name (see REDACTION_DETECTORS).
+  detectors: string[]
+  // Extra patterns by name: a regex source, or /source/flags.
+  patterns: Record<string, string>
 }
 
 interface PluginSettings {
   memoryDir: string
+  globalMemoryDir: string
   logger: LoggerSettings
+  inject: InjectSettings
+  semantic: SemanticSettings
+  expiry: ExpirySettings
+  duplicates: DuplicateSettings
+  types: Record<string, TypeDefinition>
+  redaction: RedactionSettings
 }
 
 interface SettingsFile {
   memoryDir?: string
+  globalMemoryDir?: string
   logger?: {
     enabled?: boolean
     scopes?: string[]
     dir?: string
+    maxFileBytes?: number
+    maxFiles?: number
+    compress?: boolean
+    maxFieldChars?: number
+    maxAge?: string
+    maxTotalBytes?: number
+  }
+  inject?: {
+    enabled?: boolean
+    maxChars?: number
+    decisionsPerScope?: number
+  }
+  semantic?: {
+    enabled?: boolean
+    weight?: number
+    minScore?: number
+    dimensions?: number
+    embedder?: string
   }
+  expiry?: {
+    ttl?: Record<string, string>
+    sweep?: boolean
+  }
+  duplicates?: {
+    action?: DuplicateAction
+    threshold?: number
+  }
+  // A type set to null removes it, e.g. a built-in type the project doesn't use.
+  types?: Record<string, Partial<TypeDefinition> | null>
+  redaction?: {
+    enabled?: boolean
+    detectors?: string[]
+    patterns?: Record<string, string>
+  }
+}
+
+interface MemoryLocation {
+  memory: Memory
+  filepath: string
+  lineIndex: number
+}
+
+interface Revision {
+  memory: Memory
+  replacedAt?: string
+  reason?: string
+  current?: boolean
 }
 
+interface DeletionRecord {
+  deletedAt: string
+  reason: string
+  memory: Memory
+}
+
+// Where a memory lives: the project's memoryDir or the user-level globalMemoryDir.
+type Store = "project" | "global"
+
 interface SessionInfo {
   id: string
   title: string
@@ -39,513 +168,4036 @@ interface SessionInfo {
   slug: string
 }
 
+const DEFAULT_TYPES: Record<string, TypeDefinition> = {
+  decision: { description: "Architectural or design decisions" },
+  learning: { description: "Things learned during development" },
+  preference: { description: "User or project preferences" },
+  blocker: { description: "Current blockers or issues" },
+  context: { description: "General context information" },
+  pattern: { description: "Recurring patterns or conventions" },
+}
+
 const DEFAULT_SETTINGS: PluginSettings = {
   memoryDir: ".opencode/memory",
+  globalMemoryDir: "${home}/.config/opencode/memory",
   logger: {
     enabled: false,
     scopes: [],
     dir: ".opencode/logs/memory",
+    maxFileBytes: 10_000_000,
+    maxFiles: 0,
+    compress: false,
+    maxFieldChars: 20_000,
+    maxAge: "",
+    maxTotalBytes: 0,
+  },
+  inject: {
+    enabled: true,
+    maxChars: 2000,
+    decisionsPerScope: 3,
+  },
+  semantic: {
+    enabled: false,
+    weight: 0.5,
+    minScore: 0.2,
+    dimensions: 256,
+    embedder: "hashed",
+  },
+  expiry: {
+    ttl: {},
+    sweep: true,
+  },
+  duplicates: {
+    action: "warn",
+    threshold: 0.8,
+  },
+  types: DEFAULT_TYPES,
+  redaction: {
+    enabled: false,
+    detectors: ["private_key", "aws_access_key", "aws_secret_key", "jwt", "bearer_token", "email"],
+    patterns: {},
   },
 }
 
 const GLOBAL_SETTINGS_FILE = join(homedir(), ".config", "opencode", "memory-log.json")
 
-const parseLine = (line: string): Memory | null => {
-  const tsMatch = line.match(/ts=([^\s]+)/)
-  const typeMatch = line.match(/type=([^\s]+)/)
-  const scopeMatch = line.match(/scope=([^\s]+)/)
-  const contentMatch = line.match(/content="([^"]*(?:\\"[^"]*)*)"/)
-  const issueMatch = line.match(/issue=([^\s]+)/)
-  const tagsMatch = line.match(/tags=([^\s]+)/)
+// Audit, history and archive files live next to the daily files but never hold live memories.
+const ARCHIVE_FILE = "archive.logfmt"
+const RESERVED_FILES = new Set(["deletions.logfmt", "history.logfmt", ARCHIVE_FILE])
+
+const generateId = (): string => crypto.randomUUID().replace(/-/g, "").slice(0, 8)
+
+// Lines written before IDs existed get a deterministic ID derived from their fields,
+// so the same legacy line always resolves to the same ID until it is rewritten.
+const legacyId = (memory: Pick<Memory, "ts" | "type" | "scope" | "content">): string =>
+  Bun.hash(`${memory.ts}|${memory.type}|${memory.scope}|${memory.content}`).toString(16).padStart(8, "0").slice(0, 8)
+
+const LOGFMT_ESCAPES: Record<string, string> = { "\\": "\\\\", '"': '\\"', "\n": "\\n", "\r": "\\r", "\t": "\\t" }
+const LOGFMT_UNESCAPES: Record<string, string> = { "\\": "\\", '"': '"', n: "\n", r: "\r", t: "\t" }
+
+// Lines written before backslashes were escaped hold raw backslashes (Windows paths, regexes),
+// so a line only gets the full escape set when it carries this marker. Lines that need no
+// escape besides \" read the same either way and are written without it.
+const LOGFMT_ESCAPED_KEY = "esc"
+
+// Values are written bare when they are plain tokens and quoted otherwise, with quotes,
+// backslashes and line breaks escaped so every record stays on one line.
+const encodeLogfmtValue = (value: string): string => {
+  if (value && !/[\s"\\=]/.test(value)) return value
+  return `"${value.replace(/[\\"\n\r\t]/g, (ch) => LOGFMT_ESCAPES[ch] || ch)}"`
+}
+
+const encodeLogfmt = (fields: [string, string | number | undefined][]): string => {
+  const present = fields.filter((field): field is [string, string | number] => field[1] !== undefined)
+  const escaped = present.some(([, value]) => /[\\\n\r\t]/.test(String(value)))
+  return [...present, ...(escaped ? [[LOGFMT_ESCAPED_KEY, 1] as const] : [])]
+    .map(([key, value]) => `${key}=${encodeLogfmtValue(String(value))}`)
+    .join(" ")
+}
+
+// Single left-to-right scan, so text inside a quoted value (e.g. "see scope=foo") can never
+// be mistaken for a field. Quoted values are unescaped only once the whole line is read, as the
+// marker follows them. When a key repeats, the first occurrence wins.
+const decodeLogfmt = (line: string): Record<string, string> => {
+  const record: Record<string, string> = {}
+  const quoted = new Set<string>()
+  let i = 0
+
+  while (i < line.length) {
+    while (i < line.length && /\s/.test(line[i]!)) i++
+    const keyStart = i
+    while (i < line.length && line[i] !== "=" && !/\s/.test(line[i]!)) i++
+    const key = line.slice(keyStart, i)
+    if (line[i] !== "=") continue
+    i++
+
+    const isQuoted = line[i] === '"'
+    if (isQuoted) i++
+    const valueStart = i
+    if (isQuoted) {
+      while (i < line.length && line[i] !== '"') i += line[i] === "\\" && i + 1 < line.length ? 2 : 1
+    } else {
+      while (i < line.length && !/\s/.test(line[i]!)) i++
+    }
+    const value = line.slice(valueStart, i)
+    if (isQuoted) i++
+
+    if (key && !(key in record)) {
+      record[key] = value
+      if (isQuoted) quoted.add(key)
+    }
+  }
+
+  const escaped = record[LOGFMT_ESCAPED_KEY] === "1"
+  delete record[LOGFMT_ESCAPED_KEY]
+  quoted.delete(LOGFMT_ESCAPED_KEY)
+  for (const key of quoted) {
+    record[key] = record[key]!.replace(/\\(.)/gs, (sequence, ch: string) =>
+      escaped ? (LOGFMT_UNESCAPES[ch] ?? sequence) : ch === '"' ? ch : sequence,
+    )
+  }
+  return record
+}
+
+// Lists (tags) are comma-separated with commas and backslashes inside items escaped.
+const encodeList = (items: string[]): string => items.map((item) => item.replace(/[\\,]/g, (ch) => `\\${ch}`)).join(",")
 
-  if (!tsMatch?.[1] || !typeMatch?.[1] || !scopeMatch?.[1]) return null
+const decodeList = (value: string): string[] => {
+  const items: string[] = []
+  let current = ""
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i]!
+    if (ch === "\\" && i + 1 < value.length) current += value[++i]
+    else if (ch === ",") {
+      items.push(current)
+      current = ""
+    } else current += ch
+  }
+  items.push(current)
+  return items
+}
+
+const linksToFields = (links?: MemoryLinks): [string, string | undefined][] =>
+  LINK_KINDS.map((kind) => [kind, links?.[kind]?.length ? encodeList(links[kind]!) : undefined])
+
+const linksFromRecord = (record: Record<string, string>): MemoryLinks | undefined => {
+  const links: MemoryLinks = {}
+  for (const kind of LINK_KINDS) if (record[kind]) links[kind] = decodeList(record[kind]!)
+  return Object.keys(links).length ? links : undefined
+}
+
+// Applies link changes per kind: a given list replaces that kind, an empty one clears it.
+const mergeLinks = (links: MemoryLinks | undefined, changes: MemoryLinks): MemoryLinks | undefined => {
+  const merged: MemoryLinks = { ...links }
+  for (const kind of LINK_KINDS) {
+    if (changes[kind] === undefined) continue
+    if (changes[kind]!.length) merged[kind] = [...new Set(changes[kind])]
+    else delete merged[kind]
+  }
+  return Object.keys(merged).length ? merged : undefined
+}
 
+// Issue references are stored as #51 or owner/repo#51: GitHub and GitLab issue, pull and merge
+// request URLs are reduced to owner/repo#51, while other references (e.g. JIRA-12) stay as written.
+const normalizeIssue = (value: string): string => {
+  const ref = value.trim()
+  const url = ref.match(/^https?:\/\/[^/]+\/(.+?)\/(?:-\/)?(?:issues|pull|pulls|merge_requests)\/(\d+)\/?(?:[?#].*)?$/i)
+  if (url) return `${url[1]!.toLowerCase()}#${url[2]}`
+  const qualified = ref.match(/^([\w.-]+\/[\w.-]+)#(\d+)$/)
+  if (qualified) return `${qualified[1]!.toLowerCase()}#${qualified[2]}`
+  const bare = ref.match(/^(?:#|gh-)?(\d+)$/i)
+  return bare ? `#${bare[1]}` : ref
+}
+
+const sameIssue = (issue: string | undefined, ref: string): boolean =>
+  issue !== undefined && normalizeIssue(issue).toLowerCase() === normalizeIssue(ref).toLowerCase()
+
+const memoryToFields = (m: Memory): [string, string | number | undefined][] => [
+  ["id", m.id],
+  ["rev", m.rev && m.rev > 1 ? m.rev : undefined],
+  ["type", m.type],
+  ["scope", m.scope],
+  ["content", m.content],
+  ["issue", m.issue || undefined],
+  ["tags", m.tags?.length ? encodeList(m.tags) : undefined],
+  ["expires", m.expires || undefined],
+  ...linksToFields(m.links),
+]
+
+const memoryFromRecord = (record: Record<string, string>, tsKey = "ts"): Memory | null => {
+  const ts = record[tsKey]
+  if (!ts || !record.type || !record.scope) return null
+
+  const memory = {
+    ts,
+    type: record.type,
+    scope: record.scope,
+    content: record.content || "",
+    issue: record.issue || undefined,
+    tags: record.tags ? decodeList(record.tags) : undefined,
+  }
+  const rev = record.rev ? Number(record.rev) : undefined
+  const links = linksFromRecord(record)
   return {
-    ts: tsMatch[1],
-    type: typeMatch[1],
-    scope: scopeMatch[1],
-    content: contentMatch?.[1]?.replace(/\\"/g, '"') || "",
-    issue: issueMatch?.[1],
-    tags: tagsMatch?.[1]?.split(","),
+    id: record.id || legacyId(memory),
+    ...memory,
+    ...(rev && rev > 1 ? { rev } : {}),
+    ...(record.expires ? { expires: record.expires } : {}),
+    ...(links ? { links } : {}),
+  }
+}
+
+const parseLine = (line: string): Memory | null => memoryFromRecord(decodeLogfmt(line))
+
+const serializeMemory = (m: Memory): string => encodeLogfmt([["ts", m.ts], ...memoryToFields(m)])
+
+// History rows are the superseded memory line followed by when and why it was replaced.
+const serializeHistory = (m: Memory, replacedAt: string, reason?: string): string =>
+  encodeLogfmt([["ts", m.ts], ...memoryToFields(m), ["replaced_at", replacedAt], ["reason", reason || ""]])
+
+const parseHistoryLine = (line: string): Revision | null => {
+  const record = decodeLogfmt(line)
+  const memory = memoryFromRecord(record)
+  if (!memory) return null
+  return { memory, replacedAt: record.replaced_at, reason: record.reason }
+}
+
+// Word-level diff rendered inline: removed words as [-word-], added words as {+word+}.
+const diffWords = (before: string, after: string): string => {
+  const a = before.split(/\s+/).filter(Boolean)
+  const b = after.split(/\s+/).filter(Boolean)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!)
+    }
+  }
+
+  const out: string[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      out.push(a[i]!)
+      i++
+      j++
+    } else if (i < a.length && (j >= b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      out.push(`[-${a[i]}-]`)
+      i++
+    } else {
+      out.push(`{+${b[j]}+}`)
+      j++
+    }
   }
+  return out.join(" ")
+}
+
+// Archived rows share the deletion layout but are not offered by memory_restore.
+const serializeDeletion = (m: Memory, deletedAt: string, reason: string, action = "deleted"): string =>
+  encodeLogfmt([
+    ["ts", deletedAt],
+    ["action", action],
+    ["original_ts", m.ts],
+    ...memoryToFields(m),
+    ["reason", reason],
+  ])
+
+const parseDeletionLine = (line: string): DeletionRecord | null => {
+  const record = decodeLogfmt(line)
+  if (record.action !== "deleted" || !record.ts) return null
+
+  const memory = memoryFromRecord(record, "original_ts")
+  if (!memory) return null
+  return { deletedAt: record.ts, reason: record.reason || "", memory }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+}
+
+const parseDuration = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d+)\s*([mhdw])$/i)
+  if (!match?.[1] || !match[2]) return undefined
+  return Number(match[1]) * (DURATION_UNITS[match[2].toLowerCase()] || 0)
+}
+
+// Accepts an ISO timestamp/date or a relative duration ("24h", "7d") counted back from now.
+const parseTimeBound = (value: string): number | undefined => {
+  const duration = parseDuration(value)
+  if (duration !== undefined) return Date.now() - duration
+  const parsed = Date.parse(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+// Memories without an expiry (or with an unparseable one) never expire.
+const isExpired = (m: Memory, now = Date.now()): boolean => {
+  if (!m.expires) return false
+  const expires = Date.parse(m.expires)
+  return !Number.isNaN(expires) && expires <= now
 }
 
-const formatMemory = (m: Memory): string => {
+const formatMemory = (m: Memory, store?: Store): string => {
   const date = m.ts.split("T")[0]
+  const origin = store ? ` [${store}]` : ""
   const tags = m.tags?.length ? ` [${m.tags.join(", ")}]` : ""
   const issue = m.issue ? ` (${m.issue})` : ""
-  return `[${date}] ${m.type}/${m.scope}: ${m.content}${issue}${tags}`
-}
-
-const scoreMatch = (memory: Memory, words: string[]): number => {
-  const searchable = `${memory.type} ${memory.scope} ${memory.content} ${memory.tags?.join(" ") || ""}`.toLowerCase()
-  let score = 0
-  for (const word of words) {
-    if (searchable.includes(word)) score++
-    if (memory.scope.toLowerCase() === word) score += 2
-    if (memory.type.toLowerCase() === word) score += 2
-  }
-  return score
-}
-
-const expandTemplate = (value: string, projectDir: string, dateOverride?: string): string => {
-  const now = new Date()
-  const date = dateOverride || now.toISOString().split("T")[0] || ""
-  const resolved = value
-    .replace(/\$\{home\}/gi, homedir())
-    .replace(/\$\{project\}/gi, projectDir)
-    .replace(/\$\{workspace\}/gi, projectDir)
-    .replace(/\$\{date\}/gi, date)
-    .replace(/\$\{env:([A-Z0-9_]+)\}/gi, (_match, key) => {
-      const envKey = String(key || "")
-      return process.env[envKey] || ""
-    })
+  const expiry = m.expires ? ` (${isExpired(m) ? "expired" : "expires"} ${m.expires.split("T")[0]})` : ""
+  const links = LINK_KINDS.filter((kind) => m.links?.[kind]?.length).map((kind) => `${kind} ${m.links![kind]!.join(", ")}`)
+  const linked = links.length ? ` {${links.join("; ")}}` : ""
+  return `[${date}]${origin} ${m.id} ${m.type}/${m.scope}: ${m.content}${issue}${tags}${expiry}${linked}`
+}
 
-  return isAbsolute(resolved) ? resolved : join(projectDir, resolved)
+// Memories one link away from the shown ones, in either direction, each labelled with how it
+// relates to them (e.g. "superseded by 3f9c2a1b").
+const linkedMemories = (shown: Memory[], all: Memory[]): { memory: Memory; relations: string[] }[] => {
+  const shownIds = new Set(shown.map((m) => m.id))
+  const byId = new Map(all.map((m) => [m.id, m]))
+  const found = new Map<string, { memory: Memory; relations: string[] }>()
+  const add = (memory: Memory | undefined, relation: string) => {
+    if (!memory || shownIds.has(memory.id)) return
+    const entry = found.get(memory.id) || { memory, relations: [] }
+    entry.relations.push(relation)
+    found.set(memory.id, entry)
+  }
+
+  const outgoing: Record<LinkKind, string> = { relates_to: "related to", supersedes: "superseded by", blocks: "blocked by" }
+  const incoming: Record<LinkKind, string> = { relates_to: "related to", supersedes: "supersedes", blocks: "blocks" }
+  for (const kind of LINK_KINDS) {
+    for (const m of shown) for (const id of m.links?.[kind] || []) add(byId.get(id), `${outgoing[kind]} ${m.id}`)
+    for (const other of all) {
+      for (const id of other.links?.[kind] || []) if (shownIds.has(id)) add(other, `${incoming[kind]} ${id}`)
+    }
+  }
+  return [...found.values()].sort((a, b) => newestFirst(a.memory, b.memory))
 }
 
-const buildLoggerEvent = (
-  eventName: string,
-  input: {
-    sessionID: string
-    parentSessionID: string | null
-    taskID?: string | null
-    agent?: string
-    payload?: Record<string, unknown>
-  },
-): Record<string, unknown> => {
-  const rootSessionID = input.parentSessionID || input.sessionID
+// memory_by_issue lists decisions, blockers and learnings first; other types follow alphabetically.
+const ISSUE_TYPE_ORDER = ["decision", "blocker", "learning"]
+
+type ExchangeFormat = "json" | "jsonl" | "markdown"
+
+// Fields of the Memory model in export order; also what an imported record may carry.
+const memoryToJSON = (m: Memory) => ({
+  id: m.id,
+  ts: m.ts,
+  type: m.type,
+  scope: m.scope,
+  content: m.content,
+  ...(m.issue ? { issue: m.issue } : {}),
+  ...(m.tags?.length ? { tags: m.tags } : {}),
+  ...(m.rev && m.rev > 1 ? { rev: m.rev } : {}),
+  ...(m.expires ? { expires: m.expires } : {}),
+  ...(m.links ? { links: m.links } : {}),
+})
+
+// Imported records need a type, scope and content; a missing id or ts is filled in on import.
+const memoryFromJSON = (value: unknown): Omit<Memory, "id" | "ts"> & { id?: string; ts?: string } | null => {
+  if (!value || typeof value !== "object") return null
+  const v = value as Record<string, unknown>
+  const text = (key: string) => (typeof v[key] === "string" && v[key] ? (v[key] as string) : undefined)
+  const type = text("type")
+  const scope = text("scope")
+  if (!type || !scope || typeof v.content !== "string") return null
+  const tags = Array.isArray(v.tags) ? v.tags.filter((t): t is string => typeof t === "string") : undefined
+  const rev = typeof v.rev === "number" && v.rev > 1 ? v.rev : undefined
+  const ts = text("ts")
+  const links: MemoryLinks = {}
+  const rawLinks = v.links && typeof v.links === "object" ? (v.links as Record<string, unknown>) : {}
+  for (const kind of LINK_KINDS) {
+    const ids = Array.isArray(rawLinks[kind]) ? (rawLinks[kind] as unknown[]).filter((id): id is string => typeof id === "string") : []
+    if (ids.length) links[kind] = ids
+  }
   return {
-    ts: new Date().toISOString(),
-    event: eventName,
-    session_id: input.sessionID,
-    subagent_session_id: input.sessionID,
-    parent_session_id: input.parentSessionID,
-    root_session_id: rootSessionID,
-    task_id: input.taskID || null,
-    agent: input.agent || null,
-    ...(input.payload || {}),
+    id: text("id"),
+    ts: ts && !Number.isNaN(Date.parse(ts)) ? ts : undefined,
+    type,
+    scope,
+    content: v.content,
+    issue: text("issue") && normalizeIssue(text("issue")!),
+    tags: tags?.length ? tags : undefined,
+    ...(rev ? { rev } : {}),
+    ...(text("expires") ? { expires: text("expires") } : {}),
+    ...(Object.keys(links).length ? { links } : {}),
   }
 }
 
-const mergeSettings = (base: PluginSettings, patch?: SettingsFile): PluginSettings => {
-  if (!patch) return base
-  return {
-    memoryDir: patch.memoryDir ?? base.memoryDir,
-    logger: {
-      enabled: patch.logger?.enabled ?? base.logger.enabled,
-      scopes: patch.logger?.scopes ?? base.logger.scopes,
-      dir: patch.logger?.dir ?? base.logger.dir,
-    },
+const MARKDOWN_HEADER = [
+  "# Memories",
+  "",
+  "Memories grouped by scope and type. Edit the text freely, but keep each `<!-- ... -->` comment on its entry so the file can be imported again with memory_import.",
+]
+
+// Stands in for a blank line inside multi-line content. An indented empty line would not survive
+// editors that trim trailing whitespace, and an empty comment renders as nothing.
+const BLANK_LINE_MARKER = "<!---->"
+
+// Markdown export: `## scope`, `### type`, then one bullet per memory with its metadata in a
+// trailing HTML comment. Continuation lines of multi-line content are indented under the bullet.
+const memoriesToMarkdown = (memories: Memory[]): string => {
+  const groups = new Map<string, Map<string, Memory[]>>()
+  for (const m of [...memories].sort((a, b) => a.ts.localeCompare(b.ts))) {
+    if (!groups.has(m.scope)) groups.set(m.scope, new Map())
+    const byType = groups.get(m.scope)!
+    if (!byType.has(m.type)) byType.set(m.type, [])
+    byType.get(m.type)!.push(m)
+  }
+
+  const lines = [...MARKDOWN_HEADER]
+  for (const scope of [...groups.keys()].sort()) {
+    lines.push("", `## ${scope}`)
+    const byType = groups.get(scope)!
+    for (const type of [...byType.keys()].sort()) {
+      lines.push("", `### ${type}`, "")
+      for (const m of byType.get(type)!) {
+        const meta = encodeLogfmt([
+          ["id", m.id],
+          ["ts", m.ts],
+          ["rev", m.rev && m.rev > 1 ? m.rev : undefined],
+          ["issue", m.issue || undefined],
+          ["tags", m.tags?.length ? encodeList(m.tags) : undefined],
+          ["expires", m.expires || undefined],
+          ...linksToFields(m.links),
+        ])
+        const [first = "", ...rest] = m.content.split("\n")
+        const continued = rest.map((line) => `  ${line.trim() ? line : BLANK_LINE_MARKER}`)
+        lines.push(`- ${[first, ...continued].join("\n")} <!-- ${meta} -->`)
+      }
+    }
   }
+  return `${lines.join("\n")}\n`
 }
 
-const readSettingsFile = async (filePath: string): Promise<SettingsFile | undefined> => {
-  const file = Bun.file(filePath)
-  if (!(await file.exists())) return undefined
-  const text = await file.text()
-  if (!text.trim()) return undefined
-  try {
-    return JSON.parse(text) as SettingsFile
-  } catch {
-    return undefined
+const parseMarkdownMemories = (text: string): { records: unknown[]; invalid: string[] } => {
+  const records: unknown[] = []
+  const invalid: string[] = []
+  let scope: string | undefined
+  let type: string | undefined
+  let bullet: { line: number; text: string[] } | undefined
+
+  const flush = () => {
+    if (!bullet) return
+    const joined = bullet.text.join("\n")
+    // The metadata is the last comment, so comments inside the content stay part of it.
+    const match = joined.match(/^([\s\S]*)<!--\s*(\w+=(?:(?!<!--)[\s\S])*?)\s*-->\s*$/)
+    const meta = match ? decodeLogfmt(match[2]!) : {}
+    const content = (match ? match[1]! : joined).trim()
+    if (!scope || !type) invalid.push(`line ${bullet.line}: memory outside a ## scope / ### type section`)
+    else {
+      records.push({
+        ...meta,
+        rev: meta.rev ? Number(meta.rev) : undefined,
+        tags: meta.tags ? decodeList(meta.tags) : undefined,
+        links: linksFromRecord(meta),
+        type,
+        scope,
+        content,
+      })
+    }
+    bullet = undefined
+  }
+
+  text.split("\n").forEach((line, i) => {
+    const heading = line.match(/^(#{1,3})\s+(.*?)\s*$/)
+    if (heading) {
+      flush()
+      if (heading[1] === "##") {
+        scope = heading[2]
+        type = undefined
+      } else if (heading[1] === "###") type = heading[2]
+      return
+    }
+    if (line.startsWith("- ")) {
+      flush()
+      bullet = { line: i + 1, text: [line.slice(2)] }
+      return
+    }
+    if (bullet && line.startsWith("  ")) bullet.text.push(line.slice(2) === BLANK_LINE_MARKER ? "" : line.slice(2))
+    else flush()
+  })
+  flush()
+  return { records, invalid }
+}
+
+const detectFormat = (text: string, path?: string): ExchangeFormat => {
+  if (path?.endsWith(".jsonl")) return "jsonl"
+  if (path?.endsWith(".json")) return "json"
+  if (path?.endsWith(".md")) return "markdown"
+  const start = text.trimStart()
+  if (start.startsWith("[")) return "json"
+  return start.startsWith("{") ? "jsonl" : "markdown"
+}
+
+// Parses an export document into raw records plus a description of every entry that could not be read.
+const parseExchange = (text: string, format: ExchangeFormat): { records: unknown[]; invalid: string[] } => {
+  if (format === "markdown") return parseMarkdownMemories(text)
+  if (format === "json") {
+    try {
+      const parsed = JSON.parse(text) as unknown
+      return Array.isArray(parsed) ? { records: parsed, invalid: [] } : { records: [], invalid: ["expected a JSON array of memories"] }
+    } catch (error) {
+      return { records: [], invalid: [`invalid JSON: ${error instanceof Error ? error.message : error}`] }
+    }
   }
+
+  const records: unknown[] = []
+  const invalid: string[] = []
+  text.split("\n").forEach((line, i) => {
+    if (!line.trim()) return
+    try {
+      records.push(JSON.parse(line))
+    } catch {
+      invalid.push(`line ${i + 1}: invalid JSON`)
+    }
+  })
+  return { records, invalid }
 }
 
-const settingsToJSON = (settings: PluginSettings): string => {
-  return JSON.stringify(
-    {
-      memoryDir: settings.memoryDir,
-      logger: {
-        enabled: settings.logger.enabled,
-        scopes: settings.logger.scopes,
-        dir: settings.logger.dir,
-      },
-    },
-    null,
-    2,
-  )
+const formatExchange = (memories: Memory[], format: ExchangeFormat): string => {
+  if (format === "markdown") return memoriesToMarkdown(memories)
+  if (format === "json") return `${JSON.stringify(memories.map(memoryToJSON), null, 2)}\n`
+  return memories.map((m) => `${JSON.stringify(memoryToJSON(m))}\n`).join("")
 }
 
-const projectSettingsFile = (projectDir: string) => join(projectDir, ".opencode", "memory-log.json")
+const tokenize = (text: string): string[] => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
 
-const loadSettings = async (projectDir: string, config?: unknown): Promise<PluginSettings> => {
-  const fromGlobal = await readSettingsFile(GLOBAL_SETTINGS_FILE)
-  const fromProject = await readSettingsFile(projectSettingsFile(projectDir))
-  let settings = mergeSettings(DEFAULT_SETTINGS, fromGlobal)
-  settings = mergeSettings(settings, fromProject)
+const SEARCH_FIELDS = ["scope", "type", "tag", "issue"] as const
 
-  const inlineConfig = (config as { memory_log?: SettingsFile } | undefined)?.memory_log
-  settings = mergeSettings(settings, inlineConfig)
+type SearchField = (typeof SEARCH_FIELDS)[number]
 
-  return {
-    memoryDir: expandTemplate(settings.memoryDir, projectDir),
-    logger: {
-      enabled: settings.logger.enabled,
-      scopes: settings.logger.scopes,
-      dir: expandTemplate(settings.logger.dir, projectDir),
-    },
+interface SearchQuery {
+  terms: string[]
+  phrases: string[][]
+  excludes: string[][]
+  filters: { field: SearchField; value: string; negate: boolean }[]
+}
+
+interface ScoredMemory {
+  memory: Memory
+  score: number
+}
+
+// Query syntax: bare words (match any), "quoted phrases" (required), -word / -"phrase"
+// (excluded) and field prefixes such as scope:auth tag:security issue:#51 type:decision.
+const parseSearchQuery = (query: string): SearchQuery => {
+  const parsed: SearchQuery = { terms: [], phrases: [], excludes: [], filters: [] }
+  const pattern = /(-)?(?:([a-z]+):)?(?:"([^"]*)"|(\S+))/gi
+
+  for (const match of query.matchAll(pattern)) {
+    const negate = Boolean(match[1])
+    const field = match[2]?.toLowerCase()
+    const value = match[3] ?? match[4] ?? ""
+
+    if (field && (SEARCH_FIELDS as readonly string[]).includes(field)) {
+      if (value) parsed.filters.push({ field: field as SearchField, value: value.toLowerCase(), negate })
+      continue
+    }
+
+    const text = field ? `${match[2]}:${value}` : value
+    const tokens = tokenize(text)
+    if (!tokens.length) continue
+    if (negate) parsed.excludes.push(tokens)
+    else if (match[3] !== undefined) parsed.phrases.push(tokens)
+    else parsed.terms.push(...tokens)
   }
+
+  return parsed
 }
 
-const ensureDir = async (path: string) => {
-  const dir = Bun.file(path)
-  if (!(await dir.exists())) {
-    await Bun.$`mkdir -p ${path}`
+// Scopes are hierarchical: "backend/auth/oauth" and "backend.auth.oauth" both have three levels.
+const scopeSegments = (scope: string): string[] => scope.split(/[/.]/).filter(Boolean)
+
+// Scope patterns match level by level: `*` is exactly one level and `**` any number of levels
+// (including none), so `backend/**` is backend and everything below it. Without wildcards the
+// scope must match exactly.
+const matchesScope = (pattern: string, scope: string): boolean => {
+  const match = (p: string[], s: string[]): boolean => {
+    if (!p.length) return !s.length
+    const [head, ...rest] = p
+    if (head === "**") {
+      for (let i = 0; i <= s.length; i++) if (match(rest, s.slice(i))) return true
+      return false
+    }
+    return s.length > 0 && (head === "*" || head === s[0]) && match(rest, s.slice(1))
   }
+  return match(scopeSegments(pattern), scopeSegments(scope))
 }
 
-const slugify = (text: string): string =>
-  text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60)
+// Rewrites the leading levels of `scope` that equal `from` to `to`, keeping the remaining
+// levels; returns undefined when `scope` is not in the `from` subtree. The new levels take the
+// scope's own separator, so `backend.auth.oauth` moved to `svc/auth` becomes `svc.auth.oauth`.
+const moveScope = (scope: string, from: string, to: string): string | undefined => {
+  const prefix = scopeSegments(from).map((segment) => segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  if (!prefix.length) return undefined
+  const pattern = new RegExp(`^[/.]*${prefix.join("[/.]+")}(?=[/.]|$)`)
+  const separator = scope.match(/[/.]/)?.[0]
+  const target = separator ? scopeSegments(to).join(separator) : to
+  return pattern.test(scope) ? scope.replace(pattern, () => target) : undefined
+}
 
-const makeMemoryTools = (runtime: {
-  settings: PluginSettings
-  sessionAgents: Map<string, string>
-  sessionInfo: Map<string, SessionInfo>
-  getSessionInfo: (sessionID: string) => Promise<SessionInfo>
-  client: OpencodeClient
-  projectDir: string
-}) => {
-  const getMemoryFile = () => {
-    const date = new Date().toISOString().split("T")[0]
-    return Bun.file(`${runtime.settings.memoryDir}/${date}.logfmt`)
+const matchesFilter = (memory: Memory, filter: SearchQuery["filters"][number]): boolean => {
+  switch (filter.field) {
+    case "scope":
+      return matchesScope(filter.value, memory.scope.toLowerCase())
+    case "type":
+      return memory.type.toLowerCase() === filter.value
+    case "tag":
+      return memory.tags?.some((tag) => tag.toLowerCase() === filter.value) ?? false
+    case "issue":
+      return sameIssue(memory.issue, filter.value)
+  }
+}
+
+const containsSequence = (tokens: string[], sequence: string[]): boolean => {
+  outer: for (let i = 0; i + sequence.length <= tokens.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (tokens[i + j] !== sequence[j]) continue outer
+    }
+    return true
   }
+  return false
+}
 
-  const getAllMemories = async (): Promise<Memory[]> => {
-    const dir = Bun.file(runtime.settings.memoryDir)
-    if (!(await dir.exists())) return []
+// Field weights for BM25: a hit in the scope or a tag says more than one in the content.
+const FIELD_WEIGHTS = { content: 1, tags: 1.5, scope: 2 } as const
+const BM25_K1 = 1.2
+const BM25_B = 0.75
 
-    const glob = new Bun.Glob("*.logfmt")
-    const files = await Array.fromAsync(glob.scan(runtime.settings.memoryDir))
+const memoryFields = (memory: Memory) => ({
+  content: tokenize(memory.content),
+  tags: tokenize(memory.tags?.join(" ") || ""),
+  scope: tokenize(memory.scope),
+})
 
-    if (!files.length) return []
+// Field filters and phrases must match and exclusions must not; bare words are only scored.
+const satisfiesQuery = (
+  memory: Memory,
+  parsed: SearchQuery,
+  fields: ReturnType<typeof memoryFields> = memoryFields(memory),
+): boolean => {
+  const sequences = [fields.content, fields.tags, fields.scope]
+  if (!parsed.filters.every((f) => matchesFilter(memory, f) !== f.negate)) return false
+  if (!parsed.phrases.every((p) => sequences.some((tokens) => containsSequence(tokens, p)))) return false
+  if (parsed.excludes.some((p) => sequences.some((tokens) => containsSequence(tokens, p)))) return false
+  return true
+}
 
-    const lines: string[] = []
-    for (const filename of files) {
-      if (filename === "deletions.logfmt") continue
-      const file = Bun.file(`${runtime.settings.memoryDir}/${filename}`)
-      const text = await file.text()
-      lines.push(...text.trim().split("\n").filter(Boolean))
+interface CorpusStats {
+  size: number
+  avgLength: number
+  docFrequency: (term: string) => number
+}
+
+// Adds up per-store statistics so memories from several stores are scored on one scale.
+const mergeCorpusStats = (parts: CorpusStats[]): CorpusStats => {
+  const size = parts.reduce((sum, p) => sum + p.size, 0)
+  return {
+    size,
+    avgLength: parts.reduce((sum, p) => sum + p.avgLength * p.size, 0) / (size || 1),
+    docFrequency: (term) => parts.reduce((sum, p) => sum + p.docFrequency(term), 0),
+  }
+}
+
+// Ranks memories with BM25 over content, tags and scope. Phrases and field filters must
+// match, exclusions must not, and at least one bare word must hit when any are given.
+// Ties are broken by recency. Corpus statistics default to the given memories; the index
+// passes store-wide numbers so a pre-narrowed candidate list scores the same.
+const searchMemories = (memories: Memory[], query: string, corpus?: CorpusStats): ScoredMemory[] => {
+  const parsed = parseSearchQuery(query)
+  const docs = memories.map((memory) => {
+    const fields = memoryFields(memory)
+    return { memory, fields, length: fields.content.length + fields.tags.length + fields.scope.length }
+  })
+
+  const candidates = docs.filter((doc) => satisfiesQuery(doc.memory, parsed, doc.fields))
+
+  const scoringTerms = [...new Set([...parsed.terms, ...parsed.phrases.flat()])]
+  const stats: CorpusStats = corpus || {
+    size: docs.length,
+    avgLength: docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1),
+    docFrequency: (term) =>
+      docs.filter((doc) => Object.values(doc.fields).some((tokens) => tokens.includes(term))).length,
+  }
+  const docFrequency = new Map(scoringTerms.map((term) => [term, stats.docFrequency(term)]))
+
+  const scored: ScoredMemory[] = []
+  for (const doc of candidates) {
+    let score = 0
+    let termHit = false
+    for (const term of scoringTerms) {
+      let tf = 0
+      for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+        tf += weight * doc.fields[field as keyof typeof FIELD_WEIGHTS].filter((t) => t === term).length
+      }
+      if (!tf) continue
+      if (parsed.terms.includes(term)) termHit = true
+      const df = docFrequency.get(term) || 0
+      const idf = Math.log(1 + (stats.size - df + 0.5) / (df + 0.5))
+      score +=
+        (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / (stats.avgLength || 1)))
+    }
+    if (parsed.terms.length && !termHit) continue
+    scored.push({ memory: doc.memory, score })
+  }
+
+  return scored.sort((a, b) => b.score - a.score || newestFirst(a.memory, b.memory))
+}
+
+// Ties on ts (same-millisecond writes) go to the later revision, then the larger id, so the
+// order never depends on the clock's resolution.
+const newestFirst = (a: Memory, b: Memory) =>
+  b.ts.localeCompare(a.ts) || (b.rev || 1) - (a.rev || 1) || b.id.localeCompare(a.id)
+
+type RecallSort = "relevance" | "newest" | "oldest"
+
+const oldestFirst = (a: Pick<Memory, "ts" | "id">, b: Pick<Memory, "ts" | "id">) =>
+  a.ts.localeCompare(b.ts) || a.id.localeCompare(b.id)
+
+// A recall cursor points just past the last memory of a page. Time-sorted pages resume after
+// that memory's ts and id, so memories written in between do not shift them; relevance pages
+// resume at an offset.
+interface RecallCursor {
+  sort: RecallSort
+  offset?: number
+  ts?: string
+  id?: string
+}
+
+const encodeCursor = (cursor: RecallCursor): string => Buffer.from(JSON.stringify(cursor)).toString("base64url")
+
+const decodeCursor = (value: string): RecallCursor | undefined => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString())
+    if (cursor?.sort === "relevance" && Number.isInteger(cursor.offset) && cursor.offset >= 0) return cursor
+    if ((cursor?.sort === "newest" || cursor?.sort === "oldest") && typeof cursor.ts === "string" && typeof cursor.id === "string") {
+      return cursor
     }
+  } catch {}
+  return undefined
+}
+
+const SIMILARITY_STOPWORDS = new Set(["a", "an", "and", "are", "as", "be", "for", "in", "is", "it", "of", "on", "or", "the", "to", "with"])
+const NEGATIONS = new Set(["not", "no", "never", "don", "doesn", "didn", "isn", "aren", "shouldn", "won", "without", "avoid"])
+
+// Content words of a memory: lowercased tokens minus stopwords, negations and stray letters.
+const contentWords = (text: string): Set<string> =>
+  new Set(tokenize(text).filter((t) => t.length > 1 && !SIMILARITY_STOPWORDS.has(t) && !NEGATIONS.has(t)))
+
+const isNegated = (text: string): boolean => tokenize(text).some((t) => NEGATIONS.has(t))
 
-    return lines.map(parseLine).filter((m): m is Memory => m !== null)
+// Jaccard similarity of the content words, so word order and filler don't matter.
+const contentSimilarity = (a: string, b: string): number => {
+  const wordsA = contentWords(a)
+  const wordsB = contentWords(b)
+  if (!wordsA.size && !wordsB.size) return 1
+  let shared = 0
+  for (const word of wordsA) if (wordsB.has(word)) shared++
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+interface MemoryConflict {
+  kind: "duplicate" | "contradiction"
+  memory: Memory
+  similarity: number
+}
+
+const PREFERENCE_TOPIC_OVERLAP = 0.3
+
+// A near-identical memory is a duplicate unless exactly one side is negated, which makes it a
+// contradiction. Preferences on the same topic that each name something the other doesn't
+// ("Prefers Elixir" vs "Prefers Erlang") contradict as well.
+const classifyConflict = (content: string, existing: Memory, threshold: number): MemoryConflict | undefined => {
+  const similarity = contentSimilarity(content, existing.content)
+  if (similarity >= threshold) {
+    const kind = isNegated(content) !== isNegated(existing.content) ? "contradiction" : "duplicate"
+    return { kind, memory: existing, similarity }
   }
+  if (existing.type !== "preference" || similarity < PREFERENCE_TOPIC_OVERLAP) return undefined
+  const words = contentWords(content)
+  const existingWords = contentWords(existing.content)
+  const onlyNew = [...words].some((w) => !existingWords.has(w))
+  const onlyExisting = [...existingWords].some((w) => !words.has(w))
+  return onlyNew && onlyExisting ? { kind: "contradiction", memory: existing, similarity } : undefined
+}
+
+const findConflicts = (content: string, candidates: Memory[], threshold: number): MemoryConflict[] =>
+  candidates
+    .map((m) => classifyConflict(content, m, threshold))
+    .filter((c): c is MemoryConflict => c !== undefined)
+    .sort((a, b) => b.similarity - a.similarity || newestFirst(a.memory, b.memory))
+
+// Compact digest for the system prompt: every preference and blocker, plus the newest
+// decisions per scope, trimmed line by line to stay within the character budget. Memories
+// that another memory supersedes are left out.
+const buildMemoryDigest = (all: Memory[], options: InjectSettings): string => {
+  const superseded = new Set(all.flatMap((m) => m.links?.supersedes || []))
+  const memories = all.filter((m) => !superseded.has(m.id))
+  const preferences = memories.filter((m) => m.type === "preference").sort(newestFirst)
+  const blockers = memories.filter((m) => m.type === "blocker").sort(newestFirst)
+  const decisionsByScope = new Map<string, Memory[]>()
+  for (const m of memories.filter((m) => m.type === "decision").sort(newestFirst)) {
+    const list = decisionsByScope.get(m.scope) || []
+    if (list.length < options.decisionsPerScope) list.push(m)
+    decisionsByScope.set(m.scope, list)
+  }
+  const decisions = [...decisionsByScope.values()].flat().sort(newestFirst)
+
+  const sections: [string, Memory[]][] = [
+    ["Preferences", preferences],
+    ["Blockers", blockers],
+    ["Recent decisions", decisions],
+  ]
+  const total = preferences.length + blockers.length + decisions.length
+  if (!total) return ""
+
+  // Leave room for the trailing "(N more omitted...)" note.
+  const budget = options.maxChars - 48
+  const header = "## Remembered context\nFrom earlier sessions (memory_recall has more; ids work with memory_update):"
+  const lines = [header]
+  let used = header.length
+  let included = 0
+
+  for (const [title, items] of sections) {
+    if (!items.length) continue
+    const heading = `\n${title}:`
+    if (used + heading.length + 1 > budget) break
+    const sectionLines = [heading]
+    let sectionUsed = heading.length + 1
+    for (const m of items) {
+      const line = `- ${m.id} ${m.scope}: ${m.content}${m.issue ? ` (${m.issue})` : ""}`
+      if (used + sectionUsed + line.length + 1 > budget) break
+      sectionLines.push(line)
+      sectionUsed += line.length + 1
+    }
+    if (sectionLines.length === 1) break
+    lines.push(...sectionLines)
+    used += sectionUsed
+    included += sectionLines.length - 1
+  }
+
+  if (included === 0) return ""
+  if (included < total) lines.push(`\n(${total - included} more omitted to fit the budget)`)
+  return lines.join("\n")
+}
+
+// Placeholders that change while OpenCode runs. Resolved settings keep them as written and
+// fillWritePlaceholders expands them for each write.
+const WRITE_PLACEHOLDERS = ["date", "year", "month", "session", "agent"]
+
+interface WriteValues {
+  now?: Date
+  session?: string
+  agent?: string
+}
+
+const fillWritePlaceholders = (template: string, values: WriteValues): string => {
+  const date = (values.now || new Date()).toISOString().split("T")[0]!
+  const fill: Record<string, string> = {
+    date,
+    year: date.slice(0, 4),
+    month: date.slice(5, 7),
+    session: values.session || "unknown",
+    agent: values.agent || "unknown",
+  }
+  return template.replace(/\$\{(date|year|month|session|agent)\}/gi, (_match, name: string) => fill[name.toLowerCase()]!)
+}
+
+const gitOutput = (projectDir: string, args: string[]): string => {
+  try {
+    const result = Bun.spawnSync(["git", ...args], { cwd: projectDir, stdout: "pipe", stderr: "ignore" })
+    return result.success ? result.stdout.toString().trim() : ""
+  } catch {
+    return ""
+  }
+}
+
+// Placeholders fixed for the life of the settings; the git ones run git only when used.
+const projectPlaceholders = (projectDir: string): Record<string, () => string> => ({
+  home: () => homedir(),
+  project: () => projectDir,
+  workspace: () => projectDir,
+  "project.name": () => basename(projectDir),
+  "git.branch": () => {
+    const branch = gitOutput(projectDir, ["symbolic-ref", "--short", "-q", "HEAD"])
+    if (branch) return branch.replaceAll("/", "-")
+    // A detached HEAD is named by its commit.
+    return gitOutput(projectDir, ["rev-parse", "--short", "HEAD"]) || "no-branch"
+  },
+  "git.repo": () => {
+    const remote = gitOutput(projectDir, ["remote", "get-url", "origin"])
+    const fromRemote = remote.replace(/\.git$/, "").split(/[/:]/).pop()
+    return fromRemote || basename(gitOutput(projectDir, ["rev-parse", "--show-toplevel"]) || projectDir)
+  },
+})
+
+// Expands the fixed placeholders and ${env:NAME} / ${env:NAME:-fallback}. Write placeholders
+// are expanded too when values are given, and kept otherwise.
+const expandTemplate = (value: string, projectDir: string, values?: WriteValues): string => {
+  const fixed = projectPlaceholders(projectDir)
+  const expanded = value.replace(/\$\{([^}]*)\}/g, (placeholder, name: string) => {
+    const env = name.match(/^env:([A-Z0-9_]+)(?::-(.*))?$/i)
+    if (env) return process.env[env[1]!] || env[2] || ""
+    return fixed[name.toLowerCase()]?.() ?? placeholder
+  })
+  const resolved = values ? fillWritePlaceholders(expanded, values) : expanded
+
+  return isAbsolute(resolved) ? resolved : join(projectDir, resolved)
+}
+
+// Splits a path template at its first write placeholder into the fixed directory to scan and a
+// glob matching every directory the template has expanded to.
+const templateGlob = (template: string): { root: string; pattern: string } => {
+  const parts = template.split("/")
+  const first = parts.findIndex((part) => part.includes("${"))
+  if (first === -1) return { root: template, pattern: "" }
+  return {
+    root: parts.slice(0, first).join("/") || "/",
+    pattern: parts
+      .slice(first)
+      .map((part) => part.replace(/\$\{[^}]*\}/g, "*"))
+      .join("/"),
+  }
+}
+
+const buildLoggerEvent = (
+  eventName: string,
+  input: {
+    sessionID: string
+    parentSessionID: string | null
+    taskID?: string | null
+    agent?: string
+    payload?: Record<string, unknown>
+  },
+): Record<string, unknown> => {
+  const rootSessionID = input.parentSessionID || input.sessionID
+  return {
+    ts: new Date().toISOString(),
+    event: eventName,
+    session_id: input.sessionID,
+    subagent_session_id: input.sessionID,
+    parent_session_id: input.parentSessionID,
+    root_session_id: rootSessionID,
+    task_id: input.taskID || null,
+    agent: input.agent || null,
+    ...(input.payload || {}),
+  }
+}
+
+// Names an event can be selected by in logger.scopes: the memory scope for memory_* events,
+// the tool name for tool hooks, and always the event kind itself.
+const loggerEventKeys = (payload: Record<string, unknown>): string[] => {
+  const event = typeof payload.event === "string" ? payload.event : ""
+  const keys = [event]
+  if (event.startsWith("memory_") && typeof payload.scope === "string") keys.push(payload.scope)
+  if (typeof payload.tool === "string") keys.push(payload.tool)
+  return keys.filter(Boolean)
+}
+
+// `*` or no include entries means everything; entries prefixed with `!` exclude and win.
+const shouldLogEvent = (scopes: string[], payload: Record<string, unknown>): boolean => {
+  const keys = loggerEventKeys(payload)
+  const excludes = scopes.filter((s) => s.startsWith("!")).map((s) => s.slice(1))
+  if (keys.some((key) => excludes.includes(key))) return false
+  const includes = scopes.filter((s) => !s.startsWith("!"))
+  if (!includes.length || includes.includes("*")) return true
+  return keys.some((key) => includes.includes(key))
+}
+
+// Built-in secret and PII detectors. They run in this order, so a private key block is
+// replaced whole before the narrower patterns look inside it.
+const REDACTION_DETECTORS: Record<string, RegExp> = {
+  private_key: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  aws_access_key: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  aws_secret_key: /\baws_secret_access_key\b["']?\s*[=:]\s*["']?[A-Za-z0-9/+=]{40}/gi,
+  jwt: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+  bearer_token: /\bBearer\s+[\w.~+/-]+=*/gi,
+  email: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi,
+}
+
+type RedactionRule = [name: string, pattern: RegExp]
+type RedactionCounts = Record<string, number>
+
+// Unknown detector names and patterns that do not compile are skipped.
+const redactionRules = (settings: RedactionSettings): RedactionRule[] => {
+  if (!settings.enabled) return []
+  const rules: RedactionRule[] = settings.detectors
+    .filter((name) => REDACTION_DETECTORS[name])
+    .map((name) => [name, REDACTION_DETECTORS[name]!])
+  for (const [name, source] of Object.entries(settings.patterns)) {
+    const literal = source.match(/^\/(.+)\/([a-z]*)$/)
+    try {
+      const flags = literal ? [...new Set(`${literal[2]}g`)].join("") : "g"
+      rules.push([name, new RegExp(literal ? literal[1]! : source, flags)])
+    } catch {}
+  }
+  return rules
+}
+
+// Replaces every match with [REDACTED:<name>] and counts the matches per rule in counts.
+const redactText = (text: string, rules: RedactionRule[], counts: RedactionCounts): string => {
+  let result = text
+  for (const [name, pattern] of rules) {
+    result = result.replace(pattern, () => {
+      counts[name] = (counts[name] || 0) + 1
+      return `[REDACTED:${name}]`
+    })
+  }
+  return result
+}
+
+// Redacts every string inside a JSON-like value, such as a log event.
+const redactValue = (value: unknown, rules: RedactionRule[], counts: RedactionCounts): unknown => {
+  if (typeof value === "string") return redactText(value, rules, counts)
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, rules, counts))
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, rules, counts)]))
+  }
+  return value
+}
+
+// Free-text fields of a memory; each one is redacted like the content.
+const REDACTED_MEMORY_FIELDS = ["content", "scope", "issue", "tags"] as const
+
+const redactMemoryFields = <T extends Partial<Pick<Memory, (typeof REDACTED_MEMORY_FIELDS)[number]>>>(
+  fields: T,
+  rules: RedactionRule[],
+  counts: RedactionCounts,
+): T => {
+  const redacted: Record<string, unknown> = { ...fields }
+  for (const key of REDACTED_MEMORY_FIELDS) {
+    if (redacted[key] !== undefined) redacted[key] = redactValue(redacted[key], rules, counts)
+  }
+  return redacted as T
+}
+
+const describeRedactions = (counts: RedactionCounts): string | undefined => {
+  const entries = Object.entries(counts)
+  if (!entries.length) return undefined
+  const total = entries.reduce((sum, [, count]) => sum + count, 0)
+  return `Redacted ${total} match${total === 1 ? "" : "es"} (${entries.map(([name, count]) => `${name} ${count}`).join(", ")})`
+}
+
+interface LoggedEvent {
+  ts: string
+  event: string
+  [key: string]: unknown
+}
+
+// One file under sessions/<slug>/: main.jsonl for a root session, <agent>-<id>.jsonl for a subagent.
+interface SessionLog {
+  id: string
+  slug: string
+  agent: string
+  parentID?: string
+  events: LoggedEvent[]
+}
+
+// Memory tool events carry no session fields, so the id, agent and parent come from the first
+// hook event that has them, falling back to the file name.
+const parseSessionLog = (slug: string, filename: string, text: string): SessionLog => {
+  const events: LoggedEvent[] = []
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      const parsed = JSON.parse(line)
+      if (typeof parsed?.ts === "string" && typeof parsed.event === "string") events.push(parsed)
+    } catch {}
+  }
+  const field = (key: string) => events.map((e) => e[key]).find((v): v is string => typeof v === "string" && v !== "")
+
+  const name = filename.replace(/\.jsonl$/, "")
+  if (name === "main") {
+    return { id: field("session_id") || slug, slug, agent: field("agent") || "main", parentID: field("parent_session_id"), events }
+  }
+  const id = field("session_id") || name.match(/-(ses_\w+)$/)?.[1] || name
+  const agent = name.endsWith(`-${id}`) ? name.slice(0, -(id.length + 1)) : field("agent") || "subagent"
+  return { id, slug, agent, parentID: field("parent_session_id"), events }
+}
+
+const formatDuration = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`)
+
+interface TimelineRow {
+  ts: string
+  log: SessionLog
+  events: LoggedEvent[]
+  text: string
+}
+
+const TIMELINE_FIELDS = ["tool", "scope", "memory_id", "memory_type", "outcome"]
+
+// Chronological rows across the given sessions. A tool_execute_before and the tool_execute_after
+// with the same call_id share one row showing how long the call took.
+const buildTimeline = (logs: SessionLog[]): TimelineRow[] => {
+  const rows: TimelineRow[] = []
+  for (const log of logs) {
+    const after = new Map<string, LoggedEvent>()
+    for (const e of log.events) if (e.event === "tool_execute_after" && typeof e.call_id === "string") after.set(e.call_id, e)
+    const paired = new Set<LoggedEvent>()
+
+    for (const e of log.events) {
+      if (paired.has(e)) continue
+      const call = typeof e.call_id === "string" ? e.call_id : undefined
+      if (e.event === "tool_execute_before" && call) {
+        const end = after.get(call)
+        if (!end) {
+          rows.push({ ts: e.ts, log, events: [e], text: `${e.tool} call ${call}: no result logged` })
+          continue
+        }
+        paired.add(end)
+        const title = typeof end.title === "string" && end.title ? ` (${end.title})` : ""
+        const duration = formatDuration(Math.max(0, Date.parse(end.ts) - Date.parse(e.ts)))
+        rows.push({ ts: e.ts, log, events: [e, end], text: `${e.tool} call ${call}: ${duration}${title}` })
+      } else if (e.event === "tool_execute_after" && call) {
+        rows.push({ ts: e.ts, log, events: [e], text: `${e.tool} call ${call}: finished, start not logged` })
+      } else {
+        const details = TIMELINE_FIELDS.filter((key) => typeof e[key] === "string").map((key) => `${key}=${e[key]}`)
+        rows.push({ ts: e.ts, log, events: [e], text: [e.event, ...details].join(" ") })
+      }
+    }
+  }
+  return rows.sort((a, b) => a.ts.localeCompare(b.ts))
+}
+
+// Rotated session files are <name>.<n>.jsonl (or .jsonl.gz), where 1 is the most recent.
+const parseLogFilename = (filename: string): { name: string; generation: number } | undefined => {
+  const match = filename.match(/^(.+?)(?:\.(\d+))?\.jsonl(?:\.gz)?$/)
+  return match ? { name: match[1]!, generation: Number(match[2] || 0) } : undefined
+}
+
+// Shifts <name>.<n> to <n + 1>, dropping what falls beyond maxFiles, and moves the live file to
+// <name>.1.jsonl, gzipped when compress is set. The live file is renamed before it is read, so
+// the next append starts a new file instead of landing in one that is being compressed.
+const rotateSessionLog = async (dir: string, filename: string, settings: Pick<LoggerSettings, "maxFiles" | "compress">) => {
+  const name = filename.replace(/\.jsonl$/, "")
+  const rotated = (await readdir(dir))
+    .map((file) => ({ file, parsed: parseLogFilename(file) }))
+    .filter(({ parsed }) => parsed?.name === name && parsed.generation > 0)
+    .sort((a, b) => b.parsed!.generation - a.parsed!.generation)
+  for (const { file, parsed } of rotated) {
+    const next = parsed!.generation + 1
+    if (settings.maxFiles && next > settings.maxFiles) await rm(`${dir}/${file}`, { force: true })
+    else await rename(`${dir}/${file}`, `${dir}/${file.replace(`.${parsed!.generation}.jsonl`, `.${next}.jsonl`)}`)
+  }
+
+  const first = `${dir}/${name}.1.jsonl`
+  await rename(`${dir}/${filename}`, first)
+  if (settings.compress) {
+    await writeFileAtomic(`${first}.gz`, Bun.gzipSync(await Bun.file(first).bytes()))
+    await rm(first, { force: true })
+  }
+}
+
+const TRUNCATED_LOG_FIELDS = ["output", "parts", "args"]
+
+// Cuts oversized fields to maxChars characters; structured values are cut as JSON text.
+const truncateLogFields = (event: Record<string, unknown>, maxChars: number): string[] => {
+  const truncated: string[] = []
+  if (!maxChars) return truncated
+  for (const field of TRUNCATED_LOG_FIELDS) {
+    const value = event[field]
+    if (value === undefined || value === null) continue
+    const text = typeof value === "string" ? value : JSON.stringify(value)
+    if (text.length <= maxChars) continue
+    event[field] = `${text.slice(0, maxChars)}... [truncated ${text.length - maxChars} chars]`
+    truncated.push(field)
+  }
+  return truncated
+}
+
+// Removes session directories by the logger retention settings, least recently written first.
+// The directory named by keep (the one being written) is never removed but counts toward the total.
+const pruneSessionLogs = async (
+  sessionsDir: string,
+  retention: Pick<LoggerSettings, "maxAge" | "maxTotalBytes">,
+  keep?: string,
+  now = Date.now(),
+): Promise<string[]> => {
+  const maxAge = retention.maxAge ? parseDuration(retention.maxAge) : undefined
+  if (maxAge === undefined && !retention.maxTotalBytes) return []
+  if (!(await dirExists(sessionsDir))) return []
+
+  const sessions: { slug: string; bytes: number; modified: number }[] = []
+  for (const entry of await readdir(sessionsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue
+    let bytes = 0
+    let modified = 0
+    for (const file of await readdir(join(sessionsDir, entry.name))) {
+      const info = await stat(join(sessionsDir, entry.name, file)).catch(() => undefined)
+      if (!info) continue
+      bytes += info.size
+      modified = Math.max(modified, info.mtimeMs)
+    }
+    sessions.push({ slug: entry.name, bytes, modified })
+  }
+
+  let total = sessions.reduce((sum, session) => sum + session.bytes, 0)
+  const removed: string[] = []
+  for (const session of sessions.sort((a, b) => a.modified - b.modified)) {
+    if (session.slug === keep) continue
+    const expired = maxAge !== undefined && now - session.modified > maxAge
+    const overCap = retention.maxTotalBytes > 0 && total > retention.maxTotalBytes
+    if (!expired && !overCap) continue
+    await rm(join(sessionsDir, session.slug), { recursive: true, force: true })
+    total -= session.bytes
+    removed.push(session.slug)
+  }
+  return removed
+}
+
+const mergeTypes = (
+  base: Record<string, TypeDefinition>,
+  patch?: Record<string, Partial<TypeDefinition> | null>,
+): Record<string, TypeDefinition> => {
+  const merged = { ...base }
+  for (const [name, definition] of Object.entries(patch || {})) {
+    if (definition === null) delete merged[name]
+    else merged[name] = { description: "", ...merged[name], ...definition }
+  }
+  return merged
+}
+
+const describeTypes = (types: Record<string, TypeDefinition>): string =>
+  Object.entries(types)
+    .map(([name, { description }]) => (description ? `${name} (${description})` : name))
+    .join(", ")
+
+const unknownType = (types: Record<string, TypeDefinition>, type: string): string | undefined =>
+  types[type]
+    ? undefined
+    : `Unknown type "${type}". Allowed types: ${describeTypes(types)}. Custom types are added under "types" in memory-log.json.`
+
+// Returns why a memory doesn't fit the configured types, or undefined when it does.
+const checkMemoryType = (
+  types: Record<string, TypeDefinition>,
+  memory: Pick<Memory, "type" | "issue" | "tags" | "expires">,
+): string | undefined => {
+  const definition = types[memory.type]
+  if (!definition) return unknownType(types, memory.type)
+  const missing = (definition.required || []).filter((field) => (field === "tags" ? !memory.tags?.length : !memory[field]))
+  return missing.length ? `Type ${memory.type} requires ${missing.join(" and ")}` : undefined
+}
+
+const mergeSettings = (base: PluginSettings, patch?: SettingsFile): PluginSettings => {
+  if (!patch) return base
+  return {
+    memoryDir: patch.memoryDir ?? base.memoryDir,
+    globalMemoryDir: patch.globalMemoryDir ?? base.globalMemoryDir,
+    logger: {
+      enabled: patch.logger?.enabled ?? base.logger.enabled,
+      scopes: patch.logger?.scopes ?? base.logger.scopes,
+      dir: patch.logger?.dir ?? base.logger.dir,
+      maxFileBytes: patch.logger?.maxFileBytes ?? base.logger.maxFileBytes,
+      maxFiles: patch.logger?.maxFiles ?? base.logger.maxFiles,
+      compress: patch.logger?.compress ?? base.logger.compress,
+      maxFieldChars: patch.logger?.maxFieldChars ?? base.logger.maxFieldChars,
+      maxAge: patch.logger?.maxAge ?? base.logger.maxAge,
+      maxTotalBytes: patch.logger?.maxTotalBytes ?? base.logger.maxTotalBytes,
+    },
+    inject: {
+      enabled: patch.inject?.enabled ?? base.inject.enabled,
+      maxChars: patch.inject?.maxChars ?? base.inject.maxChars,
+      decisionsPerScope: patch.inject?.decisionsPerScope ?? base.inject.decisionsPerScope,
+    },
+    semantic: {
+      enabled: patch.semantic?.enabled ?? base.semantic.enabled,
+      weight: patch.semantic?.weight ?? base.semantic.weight,
+      minScore: patch.semantic?.minScore ?? base.semantic.minScore,
+      dimensions: patch.semantic?.dimensions ?? base.semantic.dimensions,
+      embedder: patch.semantic?.embedder ?? base.semantic.embedder,
+    },
+    expiry: {
+      ttl: { ...base.expiry.ttl, ...patch.expiry?.ttl },
+      sweep: patch.expiry?.sweep ?? base.expiry.sweep,
+    },
+    duplicates: {
+      action: patch.duplicates?.action ?? base.duplicates.action,
+      threshold: patch.duplicates?.threshold ?? base.duplicates.threshold,
+    },
+    types: mergeTypes(base.types, patch.types),
+    redaction: {
+      enabled: patch.redaction?.enabled ?? base.redaction.enabled,
+      detectors: patch.redaction?.detectors ?? base.redaction.detectors,
+      patterns: { ...base.redaction.patterns, ...patch.redaction?.patterns },
+    },
+  }
+}
+
+// Checks one settings value and returns what is wrong with it.
+type SettingCheck = (value: unknown) => string | undefined
+
+const RECORD = Symbol("record")
+
+// A settings node: a leaf check, an object with known keys, or a record whose values share a spec.
+type SettingSpec = SettingCheck | { [key: string]: SettingSpec } | { [RECORD]: SettingSpec; nullable: boolean }
+
+const recordOf = (spec: SettingSpec, nullable = false): SettingSpec => ({ [RECORD]: spec, nullable })
+
+const isString: SettingCheck = (v) => (typeof v === "string" ? undefined : "expected a string")
+const isBoolean: SettingCheck = (v) => (typeof v === "boolean" ? undefined : "expected true or false")
+const isNumber =
+  (min: number, max = Infinity): SettingCheck =>
+  (v) => {
+    if (typeof v !== "number" || Number.isNaN(v)) return "expected a number"
+    if (v < min || v > max) return max === Infinity ? `expected at least ${min}` : `expected a number from ${min} to ${max}`
+    return undefined
+  }
+const isStringList: SettingCheck = (v) =>
+  Array.isArray(v) && v.every((item) => typeof item === "string") ? undefined : "expected an array of strings"
+const isOneOf =
+  (values: readonly string[]): SettingCheck =>
+  (v) =>
+    typeof v === "string" && values.includes(v) ? undefined : `expected one of ${values.join(", ")}`
+const isListOf =
+  (values: readonly string[]): SettingCheck =>
+  (v) => {
+    const error = isStringList(v)
+    if (error) return error
+    const unknown = (v as string[]).filter((item) => !values.includes(item))
+    return unknown.length ? `unknown ${unknown.map((item) => `"${item}"`).join(", ")} (expected ${values.join(", ")})` : undefined
+  }
+const isDuration: SettingCheck = (v) =>
+  typeof v !== "string" ? "expected a string" : v && parseDuration(v) === undefined ? `invalid duration "${v}" (e.g. 12h, 30d)` : undefined
+const isPattern: SettingCheck = (v) => {
+  if (typeof v !== "string") return "expected a string"
+  const literal = v.match(/^\/(.+)\/([a-z]*)$/)
+  try {
+    new RegExp(literal ? literal[1]! : v, literal ? literal[2] : "")
+    return undefined
+  } catch (error) {
+    return `invalid regex: ${error instanceof Error ? error.message : error}`
+  }
+}
+
+const SETTINGS_SPEC: SettingSpec = {
+  memoryDir: isString,
+  globalMemoryDir: isString,
+  logger: {
+    enabled: isBoolean,
+    scopes: isStringList,
+    dir: isString,
+    maxFileBytes: isNumber(0),
+    maxFiles: isNumber(0),
+    compress: isBoolean,
+    maxFieldChars: isNumber(0),
+    maxAge: isDuration,
+    maxTotalBytes: isNumber(0),
+  },
+  inject: { enabled: isBoolean, maxChars: isNumber(0), decisionsPerScope: isNumber(0) },
+  semantic: { enabled: isBoolean, weight: isNumber(0, 1), minScore: isNumber(0, 1), dimensions: isNumber(1), embedder: isString },
+  expiry: { ttl: recordOf(isDuration), sweep: isBoolean },
+  duplicates: { action: isOneOf(["off", "warn", "merge", "update"]), threshold: isNumber(0, 1) },
+  types: recordOf({ description: isString, required: isListOf(["issue", "tags", "expires"]) }, true),
+  redaction: {
+    enabled: isBoolean,
+    detectors: isListOf(Object.keys(REDACTION_DETECTORS)),
+    patterns: recordOf(isPattern),
+  },
+}
+
+// Edit distance, for suggesting the known key behind a typo such as "loger".
+const editDistance = (a: string, b: string): number => {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i]
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(row[j]! + 1, next[j - 1]! + 1, row[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    row = next
+  }
+  return row[b.length]!
+}
+
+// Returns the value with every invalid or unknown entry dropped (so defaults apply to it), and
+// adds a "path: problem" line for each of them.
+const validateSetting = (value: unknown, spec: SettingSpec, path: string, problems: string[]): unknown => {
+  const at = (key: string) => (path ? `${path}.${key}` : key)
+  if (typeof spec === "function") {
+    const error = spec(value)
+    if (error) problems.push(`${path}: ${error}`)
+    return error ? undefined : value
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    problems.push(`${path || "settings"}: expected an object`)
+    return undefined
+  }
+
+  const valid: Record<string, unknown> = {}
+  if (RECORD in spec) {
+    for (const [key, item] of Object.entries(value)) {
+      if (item === null && spec.nullable) valid[key] = null
+      else {
+        const checked = validateSetting(item, spec[RECORD], at(key), problems)
+        if (checked !== undefined) valid[key] = checked
+      }
+    }
+    return valid
+  }
+  const known = spec as Record<string, SettingSpec>
+  for (const [key, item] of Object.entries(value)) {
+    if (!(key in known)) {
+      const [closest] = Object.keys(known).sort((a, b) => editDistance(key, a) - editDistance(key, b))
+      const hint = closest && editDistance(key, closest) <= 2 ? ` (did you mean "${closest}"?)` : ""
+      problems.push(`${at(key)}: unknown key${hint}`)
+      continue
+    }
+    const checked = validateSetting(item, known[key]!, at(key), problems)
+    if (checked !== undefined) valid[key] = checked
+  }
+  return valid
+}
+
+// Placeholders expandTemplate understands; ${env:NAME} must also name a set variable or give a
+// fallback, and ${session} and ${agent} are only known when a session log is written.
+const PLACEHOLDERS = [...Object.keys(projectPlaceholders("")), ...WRITE_PLACEHOLDERS]
+const SESSION_PLACEHOLDERS = ["session", "agent"]
+
+// Every read looks in one memory dir, so a dir that changes per write would hide what was
+// written before. Such values are dropped by toSettingsLayer.
+const MEMORY_DIR_SETTINGS = ["memoryDir", "globalMemoryDir"] as const
+const writePlaceholderIn = (value: string): string | undefined =>
+  [...value.matchAll(/\$\{([^}]*)\}/g)].find(([, name = ""]) => WRITE_PLACEHOLDERS.includes(name.toLowerCase()))?.[0]
+
+const placeholderProblems = (value: unknown, path: string): string[] => {
+  if (typeof value === "string") {
+    if ((MEMORY_DIR_SETTINGS as readonly string[]).includes(path)) {
+      const placeholder = writePlaceholderIn(value)
+      if (placeholder) return [`${path}: ${placeholder} is not allowed, since memories stored under earlier values would no longer be found`]
+    }
+    if (path === "semantic.embedder") {
+      const placeholder = writePlaceholderIn(value)
+      if (placeholder) return [`${path}: ${placeholder} is not allowed, since the embedder is loaded once rather than per write`]
+    }
+    return [...value.matchAll(/\$\{([^}]*)\}/g)].flatMap(([placeholder, name = ""]) => {
+      const env = name.match(/^env:([^:]+)(:-.*)?$/i)
+      if (env) return env[2] || process.env[env[1]!] ? [] : [`${path}: ${placeholder} is not set`]
+      if (SESSION_PLACEHOLDERS.includes(name.toLowerCase()) && path !== "logger.dir") {
+        return [`${path}: ${placeholder} is only available in logger.dir`]
+      }
+      return PLACEHOLDERS.includes(name.toLowerCase()) ? [] : [`${path}: unknown placeholder ${placeholder}`]
+    })
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, item]) => placeholderProblems(item, path ? `${path}.${key}` : key))
+  }
+  return []
+}
+
+// One source of settings, in the order they are applied over DEFAULT_SETTINGS.
+interface SettingsLayer {
+  name: "global" | "project" | "inline"
+  source: string
+  settings?: SettingsFile
+  problems: string[]
+}
+
+const toSettingsLayer = (name: SettingsLayer["name"], source: string, value: unknown): SettingsLayer => {
+  const problems: string[] = []
+  const settings = validateSetting(value, SETTINGS_SPEC, "", problems) as SettingsFile | undefined
+  problems.push(...placeholderProblems(settings, ""))
+  for (const key of MEMORY_DIR_SETTINGS) {
+    if (settings?.[key] && writePlaceholderIn(settings[key])) delete settings[key]
+  }
+  if (settings?.semantic?.embedder && writePlaceholderIn(settings.semantic.embedder)) delete settings.semantic.embedder
+  return { name, source, settings, problems: problems.map((problem) => `${source}: ${problem}`) }
+}
+
+const readSettingsLayer = async (name: SettingsLayer["name"], filePath: string): Promise<SettingsLayer> => {
+  const file = Bun.file(filePath)
+  const text = (await file.exists()) ? await file.text() : ""
+  if (!text.trim()) return { name, source: filePath, problems: [] }
+  try {
+    return toSettingsLayer(name, filePath, JSON.parse(text))
+  } catch (error) {
+    return { name, source: filePath, problems: [`${filePath}: invalid JSON: ${error instanceof Error ? error.message : error}`] }
+  }
+}
+
+const loadSettingsLayers = async (projectDir: string, config?: unknown): Promise<SettingsLayer[]> => {
+  const layers = [
+    await readSettingsLayer("global", GLOBAL_SETTINGS_FILE),
+    await readSettingsLayer("project", projectSettingsFile(projectDir)),
+  ]
+  const inline = (config as { memory_log?: unknown } | undefined)?.memory_log
+  if (inline !== undefined) layers.push(toSettingsLayer("inline", "opencode config (memory_log)", inline))
+  return layers
+}
+
+const settingsToJSON = (settings: PluginSettings): string => {
+  return JSON.stringify(
+    {
+      memoryDir: settings.memoryDir,
+      globalMemoryDir: settings.globalMemoryDir,
+      logger: settings.logger,
+      inject: settings.inject,
+      semantic: settings.semantic,
+      expiry: settings.expiry,
+      duplicates: settings.duplicates,
+      types: settings.types,
+      redaction: settings.redaction,
+    },
+    null,
+    2,
+  )
+}
+
+// Leaf paths of a settings object; arrays and empty objects count as leaves.
+const flattenSettings = (value: unknown, path = ""): [string, unknown][] => {
+  if (value && typeof value === "object" && !Array.isArray(value) && Object.keys(value).length) {
+    return Object.entries(value).flatMap(([key, item]) => flattenSettings(item, path ? `${path}.${key}` : key))
+  }
+  return [[path, value]]
+}
+
+const projectSettingsFile = (projectDir: string) => join(projectDir, ".opencode", "memory-log.json")
+
+const loadSettings = async (projectDir: string, config?: unknown): Promise<PluginSettings> =>
+  resolveSettings(projectDir, await loadSettingsLayers(projectDir, config))
+
+// When and why settings were last resolved, and which layers they came from.
+interface SettingsLoad {
+  at: string
+  reason: string
+  from: string[]
+  error?: string
+}
+
+const SETTINGS_RELOAD_DEBOUNCE_MS = 100
+
+// Editors often replace a file rather than write to it, so the parent directories are watched
+// and events are matched by file name. A directory that does not exist yet is waited for from its
+// nearest existing ancestor; once it appears the watch moves there and its files count as changed.
+const watchSettingsFiles = (files: string[], onChange: (file: string) => void): { close: () => void } => {
+  const watchers = new Set<FSWatcher>()
+  let closed = false
+
+  const arm = (dir: string) => {
+    if (closed) return
+    let target = dir
+    while (!existsSync(target) && dirname(target) !== target) target = dirname(target)
+    // The next directory on the way down to dir, which is what the ancestor waits for.
+    const next = target === dir ? undefined : join(target, relative(target, dir).split(sep)[0]!)
+    try {
+      const watcher = watch(target, (_event, filename) => {
+        if (!next) {
+          const file = files.find((f) => dirname(f) === dir && basename(f) === String(filename))
+          if (file) onChange(file)
+          return
+        }
+        if (!existsSync(next)) return
+        watcher.close()
+        watchers.delete(watcher)
+        arm(dir)
+        for (const file of files) if (dirname(file) === dir && existsSync(file)) onChange(file)
+      })
+      watcher.on("error", () => {
+        watcher.close()
+        watchers.delete(watcher)
+      })
+      watcher.unref()
+      watchers.add(watcher)
+    } catch {}
+  }
+
+  for (const dir of new Set(files.map((file) => dirname(file)))) arm(dir)
+  return {
+    close: () => {
+      closed = true
+      for (const watcher of watchers) watcher.close()
+      watchers.clear()
+    },
+  }
+}
+
+// Merges validated layers over the defaults, placeholders still as written.
+const mergeLayers = (layers: SettingsLayer[]): PluginSettings =>
+  layers.reduce((merged, layer) => mergeSettings(merged, layer.settings), DEFAULT_SETTINGS)
+
+// Merges validated layers over the defaults and expands path placeholders, except the ones
+// evaluated per write.
+const resolveSettings = (projectDir: string, layers: SettingsLayer[]): PluginSettings => {
+  const settings = mergeLayers(layers)
+
+  return {
+    memoryDir: expandTemplate(settings.memoryDir, projectDir),
+    globalMemoryDir: settings.globalMemoryDir ? expandTemplate(settings.globalMemoryDir, projectDir) : "",
+    logger: {
+      ...settings.logger,
+      scopes: [...settings.logger.scopes],
+      dir: expandTemplate(settings.logger.dir, projectDir),
+    },
+    inject: { ...settings.inject },
+    semantic: {
+      ...settings.semantic,
+      embedder:
+        settings.semantic.embedder === "hashed" ? settings.semantic.embedder : expandTemplate(settings.semantic.embedder, projectDir),
+    },
+    expiry: { ttl: { ...settings.expiry.ttl }, sweep: settings.expiry.sweep },
+    duplicates: { ...settings.duplicates },
+    types: Object.keys(settings.types).length ? settings.types : DEFAULT_TYPES,
+    redaction: {
+      ...settings.redaction,
+      detectors: [...settings.redaction.detectors],
+      patterns: { ...settings.redaction.patterns },
+    },
+  }
+}
+
+const dirExists = async (path: string): Promise<boolean> => {
+  try {
+    return (await stat(path)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+const ensureDir = async (path: string) => {
+  const dir = Bun.file(path)
+  if (!(await dir.exists())) {
+    await Bun.$`mkdir -p ${path}`
+  }
+}
+
+// Appends with O_APPEND so concurrent writers never overwrite each other's lines. A missing
+// trailing newline (e.g. from a hand edit) is repaired so the new record starts on its own line.
+const appendLine = async (path: string, line: string) => {
+  const info = await stat(path).catch(() => undefined)
+  const needsNewline = info && info.size > 0 && (await Bun.file(path).slice(info.size - 1).text()) !== "\n"
+  await appendFile(path, `${needsNewline ? "\n" : ""}${line}\n`)
+}
+
+// Rewrites go to a temporary file that is renamed over the original, so readers and crashes
+// only ever see the old or the new content.
+const writeFileAtomic = async (path: string, content: string | Uint8Array) => {
+  const tmp = `${path}.${process.pid}.${generateId()}.tmp`
+  await Bun.write(tmp, content)
+  await rename(tmp, path)
+}
+
+const SWEEP_INTERVAL_MS = 5 * 60_000
+const RETENTION_INTERVAL_MS = 60 * 60_000
+
+const LOCK_FILE = ".lock"
+const LOCK_STALE_MS = 30_000
+const LOCK_REFRESH_MS = 5_000
+const LOCK_TIMEOUT_MS = 10_000
+const lockQueues = new Map<string, Promise<void>>()
+
+const processAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM"
+  }
+}
+
+const readLock = async (lockPath: string) => {
+  const [text, info] = await Promise.all([
+    Bun.file(lockPath)
+      .text()
+      .catch(() => undefined),
+    stat(lockPath).catch(() => undefined),
+  ])
+  return text === undefined || !info ? undefined : { text, pid: Number.parseInt(text, 10), mtimeMs: info.mtimeMs }
+}
+
+// Breaks a lock whose owner process is gone, or that nobody refreshed for LOCK_STALE_MS. The lock
+// is read twice and must not change in between, then renamed aside; if what was renamed turns
+// out to be a newer lock, it is linked back. Returns whether the caller should retry at once.
+const breakLock = async (lockPath: string): Promise<boolean> => {
+  const seen = await readLock(lockPath)
+  if (!seen) return true
+  const ownerGone = Number.isInteger(seen.pid) && seen.pid > 0 && !processAlive(seen.pid)
+  if (!ownerGone && Date.now() - seen.mtimeMs <= LOCK_STALE_MS) return false
+
+  const again = await readLock(lockPath)
+  if (!again) return true
+  if (again.text !== seen.text || again.mtimeMs !== seen.mtimeMs) return false
+
+  const aside = `${lockPath}.${process.pid}.${Date.now()}`
+  try {
+    await rename(lockPath, aside)
+  } catch {
+    return true
+  }
+  const taken = await Bun.file(aside)
+    .text()
+    .catch(() => "")
+  if (taken !== seen.text) await link(aside, lockPath).catch(() => {})
+  await rm(aside, { force: true })
+  return true
+}
+
+// Cross-process lock on a directory via an exclusively created lock file holding the owner's pid.
+// Callers in this process queue up first so they don't poll each other. The owner touches the
+// file every LOCK_REFRESH_MS, so only locks of crashed processes are broken (see breakLock).
+const withDirLock = async <T>(dir: string, fn: () => Promise<T>): Promise<T> => {
+  const previous = lockQueues.get(dir) || Promise.resolve()
+  let release = () => {}
+  const current = previous.then(() => new Promise<void>((resolve) => (release = resolve)))
+  lockQueues.set(dir, current)
+  await previous
+
+  const lockPath = join(dir, LOCK_FILE)
+  try {
+    await ensureDir(dir)
+    const started = Date.now()
+    const token = `${process.pid} ${new Date().toISOString()} ${Math.random().toString(36).slice(2)}\n`
+    while (true) {
+      try {
+        const handle = await open(lockPath, "wx")
+        await handle.writeFile(token)
+        await handle.close()
+        break
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error
+        if (await breakLock(lockPath)) continue
+        if (Date.now() - started > LOCK_TIMEOUT_MS) throw new Error(`Timed out waiting for lock ${lockPath}`)
+        await Bun.sleep(10 + Math.random() * 40)
+      }
+    }
+
+    const refresh = setInterval(() => {
+      const now = new Date()
+      utimes(lockPath, now, now).catch(() => {})
+    }, LOCK_REFRESH_MS)
+    refresh.unref?.()
+    try {
+      return await fn()
+    } finally {
+      clearInterval(refresh)
+      // Only our own lock is removed, in case it was broken and taken over meanwhile.
+      if ((await readLock(lockPath))?.text === token) await rm(lockPath, { force: true })
+    }
+  } finally {
+    release()
+    if (lockQueues.get(dir) === current) lockQueues.delete(dir)
+  }
+}
+
+const CANONICAL_FILE = "memories.logfmt"
+const BACKUPS_DIR = "backups"
+
+// Files holding live memories: every *.logfmt in the directory except the reserved ones.
+const liveMemoryFiles = async (dir: string): Promise<string[]> => {
+  if (!(await dirExists(dir))) return []
+  const files = await Array.fromAsync(new Bun.Glob("*.logfmt").scan(dir))
+  return files.filter((filename) => !RESERVED_FILES.has(filename)).sort()
+}
+
+// Copies the given files into backups/<timestamp><suffix>/ and returns the backup name.
+const snapshotFiles = async (dir: string, files: string[], suffix = ""): Promise<string> => {
+  const name = `${new Date().toISOString().replace(/[:.]/g, "-")}${suffix}`
+  const backupDir = join(dir, BACKUPS_DIR, name)
+  await ensureDir(backupDir)
+  for (const filename of files) await Bun.write(join(backupDir, filename), Bun.file(join(dir, filename)))
+  return name
+}
+
+interface CompactionReport {
+  files: string[]
+  memories: number
+  blank: number
+  duplicates: number
+  malformed: { file: string; line: number; text: string }[]
+  backup?: string
+}
+
+// Merges every memory file of a store into one chronologically sorted CANONICAL_FILE and drops
+// blank, repeated and unparsable lines, reporting the unparsable ones. The original files are
+// copied to backups/<timestamp>/ first, so restoreMemoryBackup can undo it.
+export const compactMemoryDir = async (dir: string, options: { dryRun?: boolean } = {}): Promise<CompactionReport> =>
+  withDirLock(dir, async () => {
+    const files = await liveMemoryFiles(dir)
+    const report: CompactionReport = { files, memories: 0, blank: 0, duplicates: 0, malformed: [] }
+    const seen = new Set<string>()
+    const memories: Memory[] = []
+
+    for (const file of files) {
+      const lines = (await Bun.file(join(dir, file)).text()).split("\n")
+      if (lines[lines.length - 1] === "") lines.pop()
+      lines.forEach((text, i) => {
+        if (!text.trim()) {
+          report.blank++
+          return
+        }
+        const memory = parseLine(text)
+        if (!memory) {
+          report.malformed.push({ file, line: i + 1, text })
+          return
+        }
+        const line = serializeMemory(memory)
+        if (seen.has(line)) {
+          report.duplicates++
+          return
+        }
+        seen.add(line)
+        memories.push(memory)
+      })
+    }
+    report.memories = memories.length
+    if (options.dryRun || !files.length) return report
+
+    report.backup = await snapshotFiles(dir, files)
+    memories.sort((a, b) => (a.ts < b.ts ? -1 : a.ts > b.ts ? 1 : 0))
+    if (memories.length) await writeFileAtomic(join(dir, CANONICAL_FILE), `${memories.map(serializeMemory).join("\n")}\n`)
+    for (const file of files) {
+      if (file !== CANONICAL_FILE || !memories.length) await rm(join(dir, file), { force: true })
+    }
+    return report
+  })
+
+// Puts the memory files of a backup back in place (default: the newest backup). The files it
+// replaces are snapshotted first, so an undo can itself be undone.
+export const restoreMemoryBackup = async (
+  dir: string,
+  backup?: string,
+): Promise<{ restored: string; files: string[]; backup: string }> =>
+  withDirLock(dir, async () => {
+    const backupsDir = join(dir, BACKUPS_DIR)
+    const available = (await dirExists(backupsDir))
+      ? (await Array.fromAsync(new Bun.Glob("*").scan({ cwd: backupsDir, onlyFiles: false }))).sort()
+      : []
+    const restored = backup ?? available[available.length - 1]
+    if (!restored || !available.includes(restored)) {
+      throw new Error(backup ? `Backup ${backup} not found in ${backupsDir}` : `No backups found in ${backupsDir}`)
+    }
+
+    const current = await liveMemoryFiles(dir)
+    const snapshot = await snapshotFiles(dir, current, "-before-undo")
+    const files = await liveMemoryFiles(join(backupsDir, restored))
+    for (const file of current) await rm(join(dir, file), { force: true })
+    for (const file of files) await writeFileAtomic(join(dir, file), await Bun.file(join(backupsDir, restored, file)).text())
+    return { restored, files, backup: snapshot }
+  })
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60)
+
+interface Embedder {
+  name: string
+  embed: (texts: string[]) => Promise<number[][]>
+}
+
+// Offline embedding: words and their character trigrams hashed into a fixed-size signed
+// vector, so "authentication" and "auth" or "deploys" and "deploy" land close together.
+const hashedNgramEmbedder = (dimensions: number): Embedder => {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0)
+    const add = (feature: string, weight: number) => {
+      const hash = Bun.hash.murmur32v3(feature)
+      vector[hash % dimensions]! += hash & 0x80000000 ? -weight : weight
+    }
+    for (const token of tokenize(text)) {
+      add(`w:${token}`, 1)
+      const padded = `#${token}#`
+      for (let i = 0; i + 3 <= padded.length; i++) add(`g:${padded.slice(i, i + 3)}`, 0.5)
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1
+    return vector.map((v) => Math.round((v / norm) * 10000) / 10000)
+  }
+  return { name: `hashed-ngram-${dimensions}`, embed: async (texts) => texts.map(embedOne) }
+}
+
+// Checks what an embed call returned: one vector per text, all of the same length and
+// made of finite numbers.
+const embeddingProblem = (output: unknown, count: number, dimensions?: number): string | undefined => {
+  if (!Array.isArray(output)) return `expected an array of vectors, got ${typeof output}`
+  if (output.length !== count) return `expected ${count} vector(s), got ${output.length}`
+  for (const vector of output) {
+    if (!Array.isArray(vector) || !vector.length) return "expected every vector to be a non-empty array"
+    dimensions ??= vector.length
+    if (vector.length !== dimensions) return `expected vectors of length ${dimensions}, got ${vector.length}`
+    if (!vector.every((v) => typeof v === "number" && Number.isFinite(v))) return "expected only finite numbers"
+  }
+  return undefined
+}
+
+// `semantic.embedder` is either "hashed" or a path to a local module exporting
+// `embed(texts: string[]): number[][] | Promise<number[][]>` (as a named or default export).
+// The module is probed once on load and every result is checked, so a broken embedder
+// throws instead of caching malformed vectors.
+const loadEmbedder = async (settings: SemanticSettings): Promise<Embedder> => {
+  if (settings.embedder === "hashed") return hashedNgramEmbedder(settings.dimensions)
+  const mod = (await import(settings.embedder)) as { embed?: unknown; default?: unknown }
+  const embed = typeof mod.embed === "function" ? mod.embed : mod.default
+  if (typeof embed !== "function") throw new Error(`${settings.embedder} does not export an embed function`)
+
+  let dimensions: number | undefined
+  const checked = async (texts: string[]): Promise<number[][]> => {
+    const output: unknown = await embed(texts)
+    const problem = embeddingProblem(output, texts.length, dimensions)
+    if (problem) throw new Error(`${settings.embedder} returned invalid embeddings: ${problem}`)
+    const vectors = output as number[][]
+    dimensions ??= vectors[0]?.length
+    return vectors
+  }
+  await checked(["embedder probe"])
+  return { name: `module:${settings.embedder}`, embed: checked }
+}
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!
+    normA += a[i]! * a[i]!
+    normB += b[i]! * b[i]!
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+const VECTORS_FILE = "vectors.jsonl"
+
+const embeddingText = (m: Memory) => `${m.scope} ${m.content} ${m.tags?.join(" ") || ""}`
+
+// Vectors are cached in vectors.jsonl next to the daily files, one JSON line per memory,
+// keyed by id and a hash of the embedded text so updated memories are re-embedded.
+const makeVectorStore = (dir: string, embedder: Embedder) => {
+  let cache: Map<string, { hash: string; vector: number[] }> | undefined
+  let lineCount = 0
+  const path = `${dir}/${VECTORS_FILE}`
+
+  const load = async () => {
+    if (cache) return cache
+    cache = new Map()
+    const file = Bun.file(path)
+    if (!(await file.exists())) return cache
+    for (const line of (await file.text()).split("\n")) {
+      if (!line.trim()) continue
+      lineCount++
+      try {
+        const record = JSON.parse(line) as { id: string; hash: string; embedder: string; vector: number[] }
+        if (record.embedder === embedder.name) cache.set(record.id, { hash: record.hash, vector: record.vector })
+      } catch {
+        // A torn line only costs a re-embed.
+      }
+    }
+    return cache
+  }
+
+  return {
+    vectorsFor: async (memories: Memory[]): Promise<Map<string, number[]>> => {
+      const vectors = await load()
+      const hashOf = (m: Memory) => Bun.hash(embeddingText(m)).toString(16)
+      const missing = memories.filter((m) => vectors.get(m.id)?.hash !== hashOf(m))
+
+      if (missing.length) {
+        const embedded = await embedder.embed(missing.map(embeddingText))
+        const lines = missing.map((m, i) => {
+          const record = { id: m.id, hash: hashOf(m), embedder: embedder.name, vector: embedded[i] || [] }
+          vectors.set(m.id, { hash: record.hash, vector: record.vector })
+          return JSON.stringify(record)
+        })
+        await ensureDir(dir)
+        lineCount += lines.length
+        if (lineCount > vectors.size * 2 + 100) {
+          const live = [...vectors.entries()].map(([id, v]) => JSON.stringify({ id, ...v, embedder: embedder.name }))
+          await writeFileAtomic(path, `${live.join("\n")}\n`)
+          lineCount = live.length
+        } else {
+          await appendLine(path, lines.join("\n"))
+        }
+      }
+
+      return new Map(memories.map((m) => [m.id, vectors.get(m.id)?.vector || []]))
+    },
+  }
+}
+
+type VectorStore = ReturnType<typeof makeVectorStore>
+
+// The embedder in use for a store; `note` explains a fallback to the hashed embedder.
+interface SemanticEntry {
+  embedder: Embedder
+  store: VectorStore
+  note?: string
+}
+
+interface HybridScore extends ScoredMemory {
+  keyword: number
+  semantic: number
+}
+
+// Blends normalised BM25 scores with cosine similarity. Memories without a keyword hit
+// still qualify when their similarity reaches `minScore`.
+const combineScores = (
+  keyword: ScoredMemory[],
+  similarities: Map<Memory, number>,
+  weight: number,
+  minScore: number,
+): HybridScore[] => {
+  const maxKeyword = Math.max(0, ...keyword.map((k) => k.score)) || 1
+  const keywordScores = new Map(keyword.map((k) => [k.memory, k.score]))
+  const combined: HybridScore[] = []
+
+  for (const [memory, similarity] of similarities) {
+    const keywordScore = keywordScores.get(memory)
+    if (keywordScore === undefined && similarity < minScore) continue
+    const normalised = (keywordScore || 0) / maxKeyword
+    combined.push({
+      memory,
+      score: weight * similarity + (1 - weight) * normalised,
+      keyword: keywordScore || 0,
+      semantic: similarity,
+    })
+  }
+
+  return combined.sort((a, b) => b.score - a.score || newestFirst(a.memory, b.memory))
+}
+
+interface IndexEntry {
+  line: number
+  length: number
+  memory: Memory
+}
+
+interface IndexedFile {
+  mtimeMs: number
+  size: number
+  newlines: number
+  entries: IndexEntry[]
+}
+
+type PostingKind = "scopes" | "types" | "tags" | "terms"
+
+interface MemoryIndexData {
+  version: number
+  // Changes with every snapshot; log records written against another snapshot are ignored.
+  generation: string
+  files: Record<string, IndexedFile>
+  postings: Record<PostingKind, Record<string, string[]>>
+}
+
+// One line of INDEX_LOG_FILE. An append adds the entries after byte `offset` of the file; any
+// other change replaces what was indexed for it, and a change without `file` drops it.
+interface IndexDelta {
+  generation: string
+  filename: string
+  offset?: number
+  file?: IndexedFile
+}
+
+const INDEX_FILE = ".index.json"
+const INDEX_LOG_FILE = ".index.jsonl"
+const INDEX_VERSION = 3
+// The log is folded into a new snapshot once it outgrows both this and the snapshot itself.
+const INDEX_LOG_MIN_BYTES = 64 * 1024
+
+const postingKeys = (memory: Memory): Record<PostingKind, string[]> => {
+  const fields = memoryFields(memory)
+  return {
+    scopes: [memory.scope],
+    types: [memory.type],
+    tags: [...new Set((memory.tags || []).map((tag) => tag.toLowerCase()))],
+    terms: [...new Set([...fields.content, ...fields.tags, ...fields.scope])],
+  }
+}
+
+// On-disk index of one memory directory: parsed entries per daily file, plus scope/type/tag/term
+// postings pointing at "<file>:<line>" refs. A snapshot in INDEX_FILE is followed by a log of the
+// changes made since, so a write costs one appended line rather than a rewrite of the whole index.
+// Files are re-indexed when their mtime or size no longer matches, so edits made outside the
+// plugin are picked up.
+const makeMemoryIndex = (dir: string) => {
+  let data: MemoryIndexData | undefined
+  const byRef = new Map<string, { filename: string; entry: IndexEntry }>()
+  let snapshotBytes = 0
+  let logBytes = 0
+
+  // Index updates interleave at every await, so they run one at a time.
+  let queue: Promise<unknown> = Promise.resolve()
+  const exclusive = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = queue.then(fn)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const emptyIndex = (): MemoryIndexData => ({
+    version: INDEX_VERSION,
+    generation: generateId(),
+    files: {},
+    postings: { scopes: {}, types: {}, tags: {}, terms: {} },
+  })
+
+  const addEntry = (index: MemoryIndexData, filename: string, entry: IndexEntry) => {
+    const ref = `${filename}:${entry.line}`
+    byRef.set(ref, { filename, entry })
+    for (const [kind, keys] of Object.entries(postingKeys(entry.memory)) as [PostingKind, string[]][]) {
+      for (const key of keys) {
+        const refs = index.postings[kind][key] || []
+        refs.push(ref)
+        index.postings[kind][key] = refs
+      }
+    }
+  }
+
+  const dropFile = (index: MemoryIndexData, filename: string) => {
+    const indexed = index.files[filename]
+    if (!indexed) return
+
+    const refs = new Set<string>()
+    const affected: Record<PostingKind, Set<string>> = {
+      scopes: new Set(),
+      types: new Set(),
+      tags: new Set(),
+      terms: new Set(),
+    }
+    for (const entry of indexed.entries) {
+      const ref = `${filename}:${entry.line}`
+      refs.add(ref)
+      byRef.delete(ref)
+      for (const [kind, keys] of Object.entries(postingKeys(entry.memory)) as [PostingKind, string[]][]) {
+        for (const key of keys) affected[kind].add(key)
+      }
+    }
+    for (const [kind, keys] of Object.entries(affected) as [PostingKind, Set<string>][]) {
+      for (const key of keys) {
+        const remaining = index.postings[kind][key]?.filter((ref) => !refs.has(ref))
+        if (remaining?.length) index.postings[kind][key] = remaining
+        else delete index.postings[kind][key]
+      }
+    }
+    delete index.files[filename]
+  }
+
+  const parseEntries = (text: string, firstLine: number) => {
+    const lines = text.split("\n")
+    const entries: IndexEntry[] = []
+    lines.forEach((line, i) => {
+      const memory = parseLine(line)
+      if (!memory) return
+      const fields = memoryFields(memory)
+      entries.push({ line: firstLine + i, length: fields.content.length + fields.tags.length + fields.scope.length, memory })
+    })
+    return { entries, newlines: lines.length - 1 }
+  }
+
+  // Describes the whole file as it is on disk now, or its removal.
+  const fileDelta = async (index: MemoryIndexData, filename: string): Promise<IndexDelta> => {
+    const path = `${dir}/${filename}`
+    const info = await stat(path).catch(() => undefined)
+    if (!info) return { generation: index.generation, filename }
+    const { entries, newlines } = parseEntries(await Bun.file(path).text(), 0)
+    return { generation: index.generation, filename, file: { mtimeMs: info.mtimeMs, size: info.size, newlines, entries } }
+  }
+
+  // Applied the same way to the live index and when the log is replayed on load.
+  const applyDelta = (index: MemoryIndexData, delta: IndexDelta) => {
+    const { filename, offset, file } = delta
+    if (offset === undefined) {
+      dropFile(index, filename)
+      if (file) index.files[filename] = { ...file, entries: [] }
+    } else if (index.files[filename]?.size !== offset) {
+      // Written against a state this index never had; refresh re-indexes the file.
+      return
+    }
+    const indexed = index.files[filename]
+    if (!indexed || !file) return
+    Object.assign(indexed, { mtimeMs: file.mtimeMs, size: file.size, newlines: file.newlines })
+    for (const entry of file.entries) {
+      indexed.entries.push(entry)
+      addEntry(index, filename, entry)
+    }
+  }
+
+  const saveSnapshot = async (index: MemoryIndexData) => {
+    index.generation = generateId()
+    const text = JSON.stringify(index)
+    await writeFileAtomic(`${dir}/${INDEX_FILE}`, text)
+    await rm(`${dir}/${INDEX_LOG_FILE}`, { force: true })
+    snapshotBytes = Buffer.byteLength(text)
+    logBytes = 0
+  }
+
+  // Appends the change to the log, or folds everything into a new snapshot when the log has
+  // grown past the snapshot, so both stay proportional to the store.
+  const record = async (index: MemoryIndexData, delta: IndexDelta) => {
+    applyDelta(index, delta)
+    const line = `${JSON.stringify(delta)}\n`
+    if (!snapshotBytes || logBytes + Buffer.byteLength(line) > Math.max(INDEX_LOG_MIN_BYTES, snapshotBytes)) {
+      await saveSnapshot(index)
+      return
+    }
+    await appendFile(`${dir}/${INDEX_LOG_FILE}`, line)
+    logBytes += Buffer.byteLength(line)
+  }
+
+  const load = async (): Promise<MemoryIndexData> => {
+    if (data) return data
+    let loaded = emptyIndex()
+    snapshotBytes = 0
+    logBytes = 0
+    try {
+      const snapshot = Bun.file(`${dir}/${INDEX_FILE}`)
+      const parsed = (await snapshot.json()) as MemoryIndexData
+      if (parsed.version === INDEX_VERSION && parsed.generation && parsed.files && parsed.postings) {
+        loaded = parsed
+        snapshotBytes = snapshot.size
+      }
+    } catch {
+      // Missing or unreadable index: start empty and let refresh rebuild it.
+    }
+    byRef.clear()
+    for (const [filename, indexed] of Object.entries(loaded.files)) {
+      for (const entry of indexed.entries) byRef.set(`${filename}:${entry.line}`, { filename, entry })
+    }
+
+    const log = await Bun.file(`${dir}/${INDEX_LOG_FILE}`).text().catch(() => "")
+    for (const line of log.split("\n")) {
+      if (!line) continue
+      try {
+        const delta = JSON.parse(line) as IndexDelta
+        if (delta.generation === loaded.generation) applyDelta(loaded, delta)
+      } catch {
+        // A torn last line is left for refresh to catch up on.
+      }
+    }
+    if (snapshotBytes) logBytes = Buffer.byteLength(log)
+    data = loaded
+    return loaded
+  }
+
+  const refresh = (): Promise<MemoryIndexData> => exclusive(async () => {
+    const index = await load()
+    if (!(await dirExists(dir))) {
+      if (Object.keys(index.files).length) data = emptyIndex()
+      byRef.clear()
+      return data!
+    }
+
+    const glob = new Bun.Glob("*.logfmt")
+    const files = (await Array.fromAsync(glob.scan(dir))).filter((filename) => !RESERVED_FILES.has(filename))
+
+    for (const filename of Object.keys(index.files)) {
+      if (!files.includes(filename)) await record(index, { generation: index.generation, filename })
+    }
+    for (const filename of files) {
+      const indexed = index.files[filename]
+      const info = await stat(`${dir}/${filename}`).catch(() => undefined)
+      if (!info) continue
+      if (!indexed || indexed.mtimeMs !== info.mtimeMs || indexed.size !== info.size) {
+        await record(index, await fileDelta(index, filename))
+      }
+    }
+    return index
+  })
+
+  const chronological = (a: Memory, b: Memory) => (a.ts < b.ts ? -1 : a.ts > b.ts ? 1 : 0)
+
+  const resolve = (refs: Iterable<string>): Memory[] => {
+    const memories: Memory[] = []
+    for (const ref of refs) {
+      const found = byRef.get(ref)
+      if (found) memories.push(found.entry.memory)
+    }
+    return memories.sort(chronological)
+  }
+
+  return {
+    memories: async (): Promise<Memory[]> => {
+      const index = await refresh()
+      return Object.values(index.files)
+        .flatMap((f) => f.entries.map((e) => e.memory))
+        .sort(chronological)
+    },
+
+    locations: async (predicate: (memory: Memory) => boolean): Promise<MemoryLocation[]> => {
+      const index = await refresh()
+      return Object.entries(index.files).flatMap(([filename, f]) =>
+        f.entries
+          .filter((e) => predicate(e.memory))
+          .map((e) => ({ memory: e.memory, filepath: `${dir}/${filename}`, lineIndex: e.line })),
+      )
+    },
+
+    lookup: async (kind: PostingKind, keys: string[]): Promise<Memory[]> => {
+      const index = await refresh()
+      const refs = new Set(keys.flatMap((key) => index.postings[kind][key] || []))
+      return resolve(refs)
+    },
+
+    keys: async (kind: PostingKind): Promise<string[]> => Object.keys((await refresh()).postings[kind]),
+
+    stats: async (): Promise<CorpusStats> => {
+      const index = await refresh()
+      let size = 0
+      let totalLength = 0
+      for (const f of Object.values(index.files)) {
+        size += f.entries.length
+        for (const e of f.entries) totalLength += e.length
+      }
+      return {
+        size,
+        avgLength: totalLength / (size || 1),
+        docFrequency: (term) => index.postings.terms[term]?.length || 0,
+      }
+    },
+
+    // Called after a line was appended at `offset`; falls back to a full re-index of the
+    // file when someone else wrote to it since it was last indexed.
+    appended: (filename: string, offset: number) => exclusive(async () => {
+      const index = await load()
+      const indexed = index.files[filename]
+      if (!indexed || indexed.size !== offset) {
+        await record(index, await fileDelta(index, filename))
+        return
+      }
+
+      const path = `${dir}/${filename}`
+      const info = await stat(path)
+      const { entries, newlines } = parseEntries(await Bun.file(path).slice(offset).text(), indexed.newlines)
+      const file = { mtimeMs: info.mtimeMs, size: info.size, newlines: indexed.newlines + newlines, entries }
+      await record(index, { generation: index.generation, filename, offset, file })
+    }),
+
+    reindex: (filename: string) => exclusive(async () => {
+      const index = await load()
+      await record(index, await fileDelta(index, filename))
+    }),
+  }
+}
+
+type MemoryIndex = ReturnType<typeof makeMemoryIndex>
+
+const makeMemoryTools = (runtime: {
+  settings: PluginSettings
+  sessionAgents: Map<string, string>
+  sessionInfo: Map<string, SessionInfo>
+  // Logger changes made by memory_logger_set without persisting, kept across reloads.
+  loggerOverrides: Partial<Pick<LoggerSettings, "enabled" | "scopes">>
+  getSessionInfo: (sessionID: string) => Promise<SessionInfo>
+  settingsLayers: () => Promise<SettingsLayer[]>
+  settingsLoad: SettingsLoad
+  client: OpencodeClient
+  projectDir: string
+}) => {
+  // The global store is skipped when unset or when it points at the project store.
+  const activeStores = (): Store[] => {
+    const { memoryDir, globalMemoryDir } = runtime.settings
+    return globalMemoryDir && globalMemoryDir !== memoryDir ? ["project", "global"] : ["project"]
+  }
+
+  const storeDir = (store: Store): string =>
+    store === "global" ? runtime.settings.globalMemoryDir : runtime.settings.memoryDir
+
+  const storeOf = (filepath: string): Store =>
+    activeStores().includes("global") && dirname(filepath) === storeDir("global") ? "global" : "project"
+
+  // Origin labels are only worth printing when there is more than one store.
+  const originLabel = (store: Store): Store | undefined => (activeStores().length > 1 ? store : undefined)
+
+  const indexes = new Map<string, MemoryIndex>()
+  const getIndex = (dir = storeDir("project")): MemoryIndex => {
+    let index = indexes.get(dir)
+    if (!index) {
+      index = makeMemoryIndex(dir)
+      indexes.set(dir, index)
+    }
+    return index
+  }
+
+  const semanticCache = new Map<string, SemanticEntry>()
+  const semanticKey = (dir: string) => {
+    const { semantic } = runtime.settings
+    return `${dir}|${semantic.embedder}|${semantic.dimensions}`
+  }
+  const useHashedEmbedder = (dir: string, note: string): SemanticEntry => {
+    const embedder = hashedNgramEmbedder(runtime.settings.semantic.dimensions)
+    const cached = { embedder, store: makeVectorStore(dir, embedder), note }
+    semanticCache.set(semanticKey(dir), cached)
+    return cached
+  }
+  const getSemantic = async (dir: string): Promise<SemanticEntry> => {
+    const { semantic } = runtime.settings
+    const cached = semanticCache.get(semanticKey(dir))
+    if (cached) return cached
+    try {
+      const embedder = await loadEmbedder(semantic)
+      const loaded = { embedder, store: makeVectorStore(dir, embedder) }
+      semanticCache.set(semanticKey(dir), loaded)
+      return loaded
+    } catch (error) {
+      return useHashedEmbedder(dir, `Could not load embedder ${semantic.embedder} (${error instanceof Error ? error.message : error}); using hashed n-grams`)
+    }
+  }
+
+  // Locks the given stores (default: every store that exists on disk) in store order, so
+  // writers touching several stores never deadlock each other.
+  const withMemoryLock = async <T>(fn: () => Promise<T>, stores?: Store[]): Promise<T> => {
+    const targets = stores ?? []
+    if (!stores) {
+      for (const store of activeStores()) {
+        if (store === "project" || (await dirExists(storeDir(store)))) targets.push(store)
+      }
+    }
+    const run = (i: number): Promise<T> => (i < targets.length ? withDirLock(storeDir(targets[i]!), () => run(i + 1)) : fn())
+    return run(0)
+  }
+
+  const getMemoryFilename = () => `${new Date().toISOString().split("T")[0]}.logfmt`
+
+  // Records that keep an older timestamp (restored, promoted or imported) go into the compacted
+  // file when there is one, instead of bringing back the daily file of their date.
+  const recordFilename = async (dir: string, ts: string) =>
+    (await Bun.file(`${dir}/${CANONICAL_FILE}`).exists()) ? CANONICAL_FILE : `${ts.split("T")[0]}.logfmt`
+
+  // Paths of the daily files across all stores.
+  const listMemoryFiles = async (): Promise<string[]> => {
+    const paths: string[] = []
+    for (const store of activeStores()) {
+      const dir = storeDir(store)
+      paths.push(...(await liveMemoryFiles(dir)).map((filename) => `${dir}/${filename}`))
+    }
+    return paths
+  }
+
+  const getAllMemories = async (): Promise<{ memory: Memory; store: Store }[]> => {
+    const all: { memory: Memory; store: Store }[] = []
+    for (const store of activeStores()) {
+      for (const memory of await getIndex(storeDir(store)).memories()) all.push({ memory, store })
+    }
+    return all
+  }
+
+  const findMemories = async (predicate: (memory: Memory) => boolean): Promise<MemoryLocation[]> => {
+    const locations: MemoryLocation[] = []
+    for (const store of activeStores()) locations.push(...(await getIndex(storeDir(store)).locations(predicate)))
+    return locations
+  }
+
+  const logDeletion = async (memory: Memory, reason: string, dir: string) => {
+    await ensureDir(dir)
+    const line = serializeDeletion(memory, new Date().toISOString(), reason)
+    await appendLine(`${dir}/deletions.logfmt`, line)
+  }
+
+  const getArchived = async (store: Store): Promise<Memory[]> => {
+    const file = Bun.file(`${storeDir(store)}/${ARCHIVE_FILE}`)
+    if (!(await file.exists())) return []
+    return (await file.text())
+      .split("\n")
+      .map(parseLine)
+      .filter((m): m is Memory => m !== null)
+  }
+
+  // Moves expired memories from the daily files into archive.logfmt and records each move in
+  // deletions.logfmt. Runs at most once per SWEEP_INTERVAL_MS for a memory dir.
+  const lastSweep = new Map<string, number>()
+  const sweepExpired = async (store: Store): Promise<number> => {
+    const dir = storeDir(store)
+    const index = getIndex(dir)
+    const now = Date.now()
+    if (!runtime.settings.expiry.sweep || now - (lastSweep.get(dir) ?? -Infinity) < SWEEP_INTERVAL_MS) return 0
+    lastSweep.set(dir, now)
+    if (!(await index.locations((m) => isExpired(m, now))).length) return 0
+
+    return withMemoryLock(async () => {
+      const expired = await index.locations((m) => isExpired(m, now))
+      const ts = new Date().toISOString()
+      for (const { memory } of expired) {
+        await appendLine(`${dir}/${ARCHIVE_FILE}`, serializeMemory(memory))
+        await appendLine(`${dir}/deletions.logfmt`, serializeDeletion(memory, ts, "expired", "archived"))
+      }
+
+      const byFile = new Map<string, Set<number>>()
+      for (const { filepath, lineIndex } of expired) {
+        if (!byFile.has(filepath)) byFile.set(filepath, new Set())
+        byFile.get(filepath)!.add(lineIndex)
+      }
+      for (const [filepath, lineIndexes] of byFile) {
+        const lines = (await Bun.file(filepath).text()).split("\n")
+        await writeFileAtomic(filepath, lines.filter((_, i) => !lineIndexes.has(i)).join("\n"))
+        await index.reindex(basename(filepath))
+      }
+      return expired.length
+    }, [store])
+  }
+
+  const sweepAllExpired = async () => {
+    for (const store of activeStores()) await sweepExpired(store)
+  }
+
+  // Deletions of every store, oldest first. `restored` holds "store|deletion_ts|id" keys.
+  const getDeletions = async (): Promise<{ records: (DeletionRecord & { store: Store })[]; restored: Set<string> }> => {
+    const records: (DeletionRecord & { store: Store })[] = []
+    const restored = new Set<string>()
+    for (const store of activeStores()) {
+      const file = Bun.file(`${storeDir(store)}/deletions.logfmt`)
+      if (!(await file.exists())) continue
+
+      for (const line of (await file.text()).split("\n")) {
+        const record = parseDeletionLine(line)
+        if (record) {
+          records.push({ ...record, store })
+          continue
+        }
+        const fields = decodeLogfmt(line)
+        if (fields.action === "restored" && fields.deletion_ts && fields.id) {
+          restored.add(`${store}|${fields.deletion_ts}|${fields.id}`)
+        }
+      }
+    }
+
+    return { records: records.sort((a, b) => a.deletedAt.localeCompare(b.deletedAt)), restored }
+  }
+
+  const getRevisions = async (id: string): Promise<Revision[]> => {
+    const revisions: Revision[] = []
+    for (const store of activeStores()) {
+      const file = Bun.file(`${storeDir(store)}/history.logfmt`)
+      if (!(await file.exists())) continue
+      for (const line of (await file.text()).split("\n")) {
+        const revision = parseHistoryLine(line)
+        if (revision?.memory.id === id) revisions.push(revision)
+      }
+    }
+
+    const [live] = await findMemories((m) => m.id === id)
+    if (live) revisions.push({ memory: live.memory, current: true })
+
+    return revisions.sort((a, b) => (a.memory.rev || 1) - (b.memory.rev || 1))
+  }
+
+  // Replaces a memory line with its next revision and keeps the old one in history.logfmt.
+  const reviseMemory = async (
+    target: MemoryLocation,
+    changes: Pick<Memory, "type" | "scope" | "content" | "issue" | "tags" | "expires"> & Pick<Partial<Memory>, "links">,
+    reason?: string,
+  ): Promise<Memory> => {
+    const dir = dirname(target.filepath)
+    const ts = new Date().toISOString()
+
+    await appendLine(`${dir}/history.logfmt`, serializeHistory(target.memory, ts, reason))
+
+    const revised: Memory = {
+      id: target.memory.id,
+      ts,
+      links: target.memory.links,
+      ...changes,
+      rev: (target.memory.rev || 1) + 1,
+    }
+
+    const text = await Bun.file(target.filepath).text()
+    const lines = text.split("\n")
+    lines[target.lineIndex] = serializeMemory(revised)
+    await writeFileAtomic(target.filepath, lines.join("\n"))
+    await getIndex(dir).reindex(basename(target.filepath))
+
+    return revised
+  }
+
+  let lastPrune = -Infinity
+  const appendSessionLog = async (sessionID: string, payload: Record<string, unknown>) => {
+    // A reload may swap the settings while this write awaits; it finishes with the ones it started with.
+    const { logger, redaction } = runtime.settings
+    if (!logger.enabled) return
+    if (!shouldLogEvent(logger.scopes, payload)) return
+
+    // Tool outputs and chat parts can hold anything the agent read, so every string is redacted.
+    const counts: RedactionCounts = {}
+    const event = redactValue(payload, redactionRules(redaction), counts) as Record<string, unknown>
+    if (Object.keys(counts).length) {
+      const earlier = (payload.redactions as RedactionCounts | undefined) || {}
+      for (const [name, count] of Object.entries(earlier)) counts[name] = (counts[name] || 0) + count
+      event.redactions = counts
+    }
+    const truncated = truncateLogFields(event, logger.maxFieldChars)
+    if (truncated.length) event.truncated = truncated
+
+    const info = await runtime.getSessionInfo(sessionID)
+
+    let sessionSlug: string
+    let filename: string
+
+    if (info.parentID) {
+      const parentInfo = await runtime.getSessionInfo(info.parentID)
+      sessionSlug = parentInfo.slug
+      const agent = runtime.sessionAgents.get(sessionID) || "subagent"
+      filename = `${agent}-${info.id}.jsonl`
+    } else {
+      sessionSlug = info.slug
+      filename = "main.jsonl"
+    }
+
+    const logDir = fillWritePlaceholders(logger.dir, { session: info.id, agent: runtime.sessionAgents.get(sessionID) })
+    const sessionsDir = `${logDir}/sessions/${sessionSlug}`
+    await ensureDir(sessionsDir)
+
+    const line = `${JSON.stringify(event)}\n`
+    const path = `${sessionsDir}/${filename}`
+    const size = async () => (await stat(path).catch(() => undefined))?.size ?? 0
+    const full = async () => {
+      const current = await size()
+      return logger.maxFileBytes > 0 && current > 0 && current + Buffer.byteLength(line) > logger.maxFileBytes
+    }
+    // Appends take the same lock as rotation, so no line lands in a file that is being moved away.
+    await withDirLock(sessionsDir, async () => {
+      if (await full()) await rotateSessionLog(sessionsDir, filename, logger)
+      await appendFile(path, line)
+    })
+
+    if (Date.now() - lastPrune >= RETENTION_INTERVAL_MS) {
+      lastPrune = Date.now()
+      await pruneSessionLogs(`${logDir}/sessions`, logger, sessionSlug)
+    }
+  }
+
+  // Type arguments and the remember description are generated from the configured types, and
+  // regenerated by refreshTypes when settings are reloaded.
+  const typeSchema = () => tool.schema.enum(Object.keys(runtime.settings.types) as [string, ...string[]])
+  const rememberDescription = () => `Store a memory (${Object.keys(runtime.settings.types).join(", ")})`
+  const rememberTypeArg = () => typeSchema().describe(`Type of memory: ${describeTypes(runtime.settings.types)}`)
+
+  const linkArgs = () => ({
+    relates_to: tool.schema.array(tool.schema.string()).optional().describe("IDs of related memories"),
+    supersedes: tool.schema
+      .array(tool.schema.string())
+      .optional()
+      .describe("IDs of memories this one replaces (they are kept, but drop out of the system prompt digest)"),
+    blocks: tool.schema.array(tool.schema.string()).optional().describe("IDs of memories this one blocks"),
+  })
+
+  const linksFromArgs = (args: MemoryLinks): MemoryLinks =>
+    Object.fromEntries(LINK_KINDS.filter((kind) => args[kind] !== undefined).map((kind) => [kind, args[kind]]))
+
+  // Link targets must be live memories in one of the stores, and never the memory itself.
+  const checkLinks = async (links: MemoryLinks, self?: string): Promise<string | undefined> => {
+    const ids = [...new Set(LINK_KINDS.flatMap((kind) => links[kind] || []))]
+    if (!ids.length) return undefined
+    if (self && ids.includes(self)) return "A memory cannot link to itself"
+    const known = new Set((await getAllMemories()).map(({ memory }) => memory.id))
+    const missing = ids.filter((id) => !known.has(id))
+    return missing.length ? `Unknown memory id to link: ${missing.join(", ")}` : undefined
+  }
+
+  const remember = tool({
+    description: rememberDescription(),
+    args: {
+      type: rememberTypeArg(),
+      scope: tool.schema.string().describe("Scope/area (e.g., auth, api, mobile)"),
+      content: tool.schema.string().describe("The memory content"),
+      issue: tool.schema.string().optional().describe("Related GitHub issue (e.g., #51)"),
+      tags: tool.schema.array(tool.schema.string()).optional().describe("Additional tags"),
+      expires: tool.schema.string().optional().describe("When the memory stops being relevant (ISO date or timestamp)"),
+      ttl: tool.schema
+        .string()
+        .optional()
+        .describe('How long the memory stays relevant (e.g. 12h, 14d, 2w), or "never" to skip the type\'s default TTL'),
+      store: tool.schema
+        .enum(["project", "global"])
+        .optional()
+        .describe("Where to keep it: project (default) or global for facts that hold in every repository"),
+      on_duplicate: tool.schema
+        .enum(["off", "warn", "merge", "update"])
+        .optional()
+        .describe(
+          "When it resembles an existing memory of the same scope and type: warn and store anyway, merge tags into the duplicate, update the existing memory, or off (default from settings)",
+        ),
+      ...linkArgs(),
+    },
+    async execute(args, context) {
+      const store = args.store || "project"
+      if (!activeStores().includes(store)) return "Global memory store is disabled (set globalMemoryDir in memory-log.json)"
+      const ts = new Date().toISOString()
+      const requestedLinks = linksFromArgs(args)
+      const badLink = await checkLinks(requestedLinks)
+      if (badLink) return badLink
+      const redactions: RedactionCounts = {}
+      const fields = redactMemoryFields(
+        { content: args.content, scope: args.scope, issue: args.issue, tags: args.tags },
+        redactionRules(runtime.settings.redaction),
+        redactions,
+      )
+      const { content, scope, tags } = fields
+      const issue = fields.issue ? normalizeIssue(fields.issue) : undefined
+
+      // An explicit expires wins over ttl, which wins over the type's default TTL from settings.
+      let expires: string | undefined
+      if (args.expires) {
+        const at = Date.parse(args.expires)
+        if (Number.isNaN(at)) return `Invalid expires value: ${args.expires}`
+        expires = new Date(at).toISOString()
+      } else if (args.ttl !== "never") {
+        const ttl = args.ttl ?? runtime.settings.expiry.ttl[args.type]
+        const duration = ttl ? parseDuration(ttl) : undefined
+        if (args.ttl && duration === undefined) return `Invalid ttl value: ${args.ttl}`
+        if (duration !== undefined) expires = new Date(Date.parse(ts) + duration).toISOString()
+      }
+
+      const problem = checkMemoryType(runtime.settings.types, { type: args.type, issue, tags, expires })
+      if (problem) return problem
+
+      const dir = storeDir(store)
+      await ensureDir(dir)
+
+      const memory: Memory = {
+        id: generateId(),
+        ts,
+        type: args.type,
+        scope,
+        content,
+        issue,
+        tags,
+        expires,
+        links: mergeLinks(undefined, requestedLinks),
+      }
+
+      const action = args.on_duplicate || runtime.settings.duplicates.action
+      const filename = getMemoryFilename()
+      const path = `${dir}/${filename}`
+      const outcome = await withMemoryLock(async () => {
+        const index = getIndex(dir)
+        const now = Date.now()
+        const conflicts =
+          action === "off"
+            ? []
+            : findConflicts(
+                content,
+                (await index.memories()).filter((m) => m.scope === scope && m.type === args.type && !isExpired(m, now)),
+                runtime.settings.duplicates.threshold,
+              )
+
+        const [top] = conflicts
+        if (top && (action === "update" || (action === "merge" && top.kind === "duplicate"))) {
+          const [target] = await index.locations((m) => m === top.memory)
+          if (target) {
+            const existing = target.memory
+            if (action === "update") {
+              const revised = await reviseMemory(
+                target,
+                {
+                  type: existing.type,
+                  scope: existing.scope,
+                  content,
+                  issue: issue ?? existing.issue,
+                  tags: tags ?? existing.tags,
+                  expires: expires ?? existing.expires,
+                  links: mergeLinks(existing.links, requestedLinks),
+                },
+                `Replaced by memory_remember (${top.kind})`,
+              )
+              return { kind: "updated" as const, conflict: top, memory: revised }
+            }
+
+            const mergedTags = [...new Set([...(existing.tags || []), ...(tags || [])])]
+            const mergedIssue = existing.issue || issue
+            const links = mergeLinks(existing.links, requestedLinks)
+            if (
+              mergedTags.length === (existing.tags?.length || 0) &&
+              mergedIssue === existing.issue &&
+              JSON.stringify(links) === JSON.stringify(existing.links)
+            ) {
+              return { kind: "unchanged" as const, conflict: top, memory: existing }
+            }
+            const revised = await reviseMemory(
+              target,
+              {
+                type: existing.type,
+                scope: existing.scope,
+                content: existing.content,
+                issue: mergedIssue,
+                tags: mergedTags.length ? mergedTags : undefined,
+                expires: existing.expires,
+                links,
+              },
+              "Merged duplicate from memory_remember",
+            )
+            return { kind: "merged" as const, conflict: top, memory: revised }
+          }
+        }
+
+        const offset = (await stat(path).catch(() => undefined))?.size ?? 0
+        await appendLine(path, serializeMemory(memory))
+        await index.appended(filename, offset)
+        return { kind: "remembered" as const, conflicts, memory }
+      }, [store])
+
+      const target = outcome.memory
+      await appendSessionLog(context.sessionID, {
+        ts: memory.ts,
+        event: "memory_remember",
+        memory_id: target.id,
+        scope,
+        memory_type: args.type,
+        content,
+        expires,
+        store,
+        outcome: outcome.kind,
+        ...(Object.keys(redactions).length ? { redactions } : {}),
+      })
+      const redacted = describeRedactions(redactions)
+      const withRedactions = (text: string) => (redacted ? `${text}\n${redacted}` : text)
+
+      const similarity = (c: MemoryConflict) => `similarity ${c.similarity.toFixed(2)}`
+      if (outcome.kind === "unchanged") {
+        return withRedactions(
+          `Already remembered as ${target.type} in ${target.scope} (id: ${target.id}, ${similarity(outcome.conflict)}); nothing new to merge`,
+        )
+      }
+      if (outcome.kind === "merged") {
+        return withRedactions(
+          `Merged into existing ${target.type} in ${target.scope} (id: ${target.id}, rev ${target.rev}, ${similarity(outcome.conflict)})`,
+        )
+      }
+      if (outcome.kind === "updated") {
+        const what = outcome.conflict.kind === "duplicate" ? "a duplicate" : "a contradicting memory"
+        return withRedactions(
+          `Updated ${target.type} in ${target.scope} (id: ${target.id}, rev ${target.rev}) instead of adding ${what} (${similarity(outcome.conflict)})`,
+        )
+      }
+
+      const expiry = expires ? `, expires ${expires.split("T")[0]}` : ""
+      const where = store === "global" ? ", global store" : ""
+      const lines = [`Remembered: ${args.type} in ${scope} (id: ${memory.id}${expiry}${where})`]
+      for (const c of outcome.conflicts.slice(0, 3)) {
+        const label = c.kind === "duplicate" ? "Possible duplicate of" : "Possible contradiction with"
+        lines.push(`${label} ${c.memory.id} (${similarity(c)}): ${c.memory.content}`)
+      }
+      const replaced = outcome.conflicts.find((c) => c.kind === "contradiction" && !memory.links?.supersedes?.includes(c.memory.id))
+      if (replaced) {
+        lines.push(`If it replaces ${replaced.memory.id}, record that with memory_update (id: ${memory.id}, supersedes: ["${replaced.memory.id}"])`)
+      }
+      if (redacted) lines.push(redacted)
+      return lines.join("\n")
+    },
+  })
+
+  const recall = tool({
+    description: "Retrieve memories by scope, type, or search query",
+    args: {
+      scope: tool.schema.string().optional().describe("Filter by scope"),
+      type: typeSchema().optional().describe("Filter by type"),
+      query: tool.schema
+        .string()
+        .optional()
+        .describe(
+          'Search query: words (match any, ranked by relevance), "exact phrase", -excluded, and field filters like scope:auth type:decision tag:security issue:#51',
+        ),
+      tags: tool.schema.array(tool.schema.string()).optional().describe("Only memories carrying all of these tags (exact match)"),
+      issue: tool.schema
+        .string()
+        .optional()
+        .describe("Only memories linked to this issue (#51, owner/repo#51 or an issue URL; exact match)"),
+      since: tool.schema.string().optional().describe("Only memories written after this time (ISO date or e.g. 24h, 7d)"),
+      until: tool.schema.string().optional().describe("Only memories written before this time (ISO date or e.g. 24h, 7d)"),
+      sort: tool.schema
+        .enum(["relevance", "newest", "oldest"])
+        .optional()
+        .describe("Result order (default: relevance with a query, newest otherwise)"),
+      limit: tool.schema.number().optional().describe("Max results per page (default 20)"),
+      offset: tool.schema.number().optional().describe("Number of results to skip"),
+      cursor: tool.schema.string().optional().describe("Continue after the previous page (cursor from its footer)"),
+      mode: tool.schema
+        .enum(["keyword", "semantic", "hybrid"])
+        .optional()
+        .describe("How to rank a query: keyword (BM25), semantic (local vectors) or hybrid (default when semantic recall is enabled)"),
+      include_expired: tool.schema
+        .boolean()
+        .optional()
+        .describe("Also return expired memories, including those already moved to the archive"),
+      expand_links: tool.schema
+        .boolean()
+        .optional()
+        .describe("Also show memories linked to or from the results (relates_to, supersedes, blocks)"),
+    },
+    async execute(args) {
+      const badType = args.type ? unknownType(runtime.settings.types, args.type) : undefined
+      if (badType) return badType
+      const since = args.since ? parseTimeBound(args.since) : undefined
+      const until = args.until ? parseTimeBound(args.until) : undefined
+      if (args.since && since === undefined) return `Invalid since value: ${args.since}`
+      if (args.until && until === undefined) return `Invalid until value: ${args.until}`
+      if (args.offset !== undefined && args.cursor) return "Pass either offset or cursor, not both"
+      if (args.offset !== undefined && !(Number.isInteger(args.offset) && args.offset >= 0)) {
+        return `Invalid offset: ${args.offset}`
+      }
+      const cursor = args.cursor ? decodeCursor(args.cursor) : undefined
+      if (args.cursor && !cursor) return `Invalid cursor: ${args.cursor}`
+      if (cursor && args.sort && args.sort !== cursor.sort) return `The cursor continues a ${cursor.sort} listing; drop sort or the cursor`
+
+      await sweepAllExpired()
+      const now = Date.now()
+      const wantedTags = (args.tags || []).map((tag) => tag.toLowerCase())
+      const live = (m: Memory) => args.include_expired || !isExpired(m, now)
+      const visible = (m: Memory) => {
+        if (!live(m)) return false
+        const written = Date.parse(m.ts)
+        if (since !== undefined && written < since) return false
+        if (until !== undefined && written > until) return false
+        if (args.issue !== undefined && !sameIssue(m.issue, args.issue)) return false
+        return wantedTags.every((tag) => m.tags?.some((t) => t.toLowerCase() === tag) ?? false)
+      }
+
+      const notes: string[] = []
+      const parsed = args.query ? parseSearchQuery(args.query) : undefined
+      const semanticText = parsed ? [...parsed.terms, ...parsed.phrases.flat()].join(" ") : ""
+      let mode = args.mode || (runtime.settings.semantic.enabled ? "hybrid" : "keyword")
+      if (parsed && mode !== "keyword" && !runtime.settings.semantic.enabled) {
+        notes.push("Semantic recall is disabled (set semantic.enabled in memory-log.json); showing keyword results.")
+        mode = "keyword"
+      }
+      if (mode !== "keyword" && !semanticText) mode = "keyword"
+
+      // Each store is narrowed through its own postings; archived memories are not indexed,
+      // so they are filtered directly and left to the query to rank.
+      const origins = new Map<Memory, Store>()
+      const corpora: CorpusStats[] = []
+      let results: Memory[] = []
+      let totalCount = 0
+      for (const store of activeStores()) {
+        const index = getIndex(storeDir(store))
+        const archived = args.include_expired ? await getArchived(store) : []
+        let candidates = (await index.memories()).filter(live)
+        totalCount += candidates.length + archived.length
+        candidates = candidates.filter(visible)
+
+        if (args.scope) {
+          const scopes = (await index.keys("scopes")).filter((s) => matchesScope(args.scope!, s))
+          candidates = (await index.lookup("scopes", scopes)).filter(visible)
+        }
+        if (args.type) {
+          const ofType = new Set(await index.lookup("types", [args.type]))
+          candidates = candidates.filter((m) => ofType.has(m))
+        }
+        if (parsed && mode === "keyword") {
+          // Only memories holding a query word (or a word of the first phrase) can match.
+          const narrowing = parsed.terms.length ? parsed.terms : parsed.phrases[0] || []
+          if (narrowing.length) {
+            const withTerms = new Set(await index.lookup("terms", narrowing))
+            candidates = candidates.filter((m) => withTerms.has(m))
+          }
+        }
+        candidates.push(
+          ...archived.filter(
+            (m) => visible(m) && (!args.scope || matchesScope(args.scope, m.scope)) && (!args.type || m.type === args.type),
+          ),
+        )
+
+        for (const m of candidates) origins.set(m, store)
+        results.push(...candidates)
+        if (parsed) corpora.push(await index.stats())
+      }
+
+      if (!totalCount) return "No memories found"
+
+      const scores = new Map<Memory, string>()
+      if (args.query && parsed) {
+        const corpus = mergeCorpusStats(corpora)
+        if (mode === "keyword") {
+          const scored = searchMemories(results, args.query, corpus)
+          for (const { memory, score } of scored) scores.set(memory, `score ${score.toFixed(2)}`)
+          results = scored.map((x) => x.memory)
+        } else {
+          const candidates = results.filter((m) => satisfiesQuery(m, parsed))
+          const embedAll = async () => {
+            const vectors = new Map<string, number[]>()
+            let queryVector: number[] = []
+            for (const store of activeStores()) {
+              const { embedder, store: vectorStore } = await getSemantic(storeDir(store))
+              const fromStore = candidates.filter((m) => origins.get(m) === store)
+              for (const [id, vector] of await vectorStore.vectorsFor(fromStore)) vectors.set(id, vector)
+              if (!queryVector.length) queryVector = (await embedder.embed([semanticText]))[0] || []
+            }
+            return { vectors, queryVector }
+          }
+          let embedded: Awaited<ReturnType<typeof embedAll>>
+          try {
+            embedded = await embedAll()
+          } catch (error) {
+            // A module embedder that passed its probe can still fail on real input.
+            if (runtime.settings.semantic.embedder === "hashed") throw error
+            const note = `Embedder ${runtime.settings.semantic.embedder} failed (${error instanceof Error ? error.message : error}); using hashed n-grams`
+            for (const store of activeStores()) useHashedEmbedder(storeDir(store), note)
+            embedded = await embedAll()
+          }
+          const { vectors, queryVector } = embedded
+          for (const store of activeStores()) {
+            const { note } = await getSemantic(storeDir(store))
+            if (note && !notes.includes(note)) notes.push(note)
+          }
+          const similarities = new Map(candidates.map((m) => [m, cosine(queryVector, vectors.get(m.id) || [])]))
+          const keyword = mode === "hybrid" ? searchMemories(candidates, args.query, corpus) : []
+          const weight = mode === "hybrid" ? runtime.settings.semantic.weight : 1
+          const combined = combineScores(keyword, similarities, weight, runtime.settings.semantic.minScore)
+          for (const c of combined) {
+            scores.set(c.memory, `score ${c.score.toFixed(2)}; keyword ${c.keyword.toFixed(2)}, semantic ${c.semantic.toFixed(2)}`)
+          }
+          results = combined.map((c) => c.memory)
+        }
+      }
+
+      let sort: RecallSort = cursor?.sort || args.sort || (parsed ? "relevance" : "newest")
+      if (sort === "relevance" && !parsed) {
+        notes.push("Relevance needs a query; showing newest first.")
+        sort = "newest"
+      }
+      // Query results arrive ranked; the time orders re-sort them (and everything else).
+      const order: typeof oldestFirst = sort === "oldest" ? oldestFirst : (a, b) => oldestFirst(b, a)
+      if (sort !== "relevance") results.sort(order)
+
+      const filteredCount = results.length
+      const limit = args.limit && args.limit > 0 ? args.limit : 20
+      let start = args.offset || 0
+      if (cursor?.sort === "relevance") start = cursor.offset!
+      else if (cursor) {
+        const after = results.findIndex((m) => order(m, { ts: cursor.ts!, id: cursor.id! }) > 0)
+        start = after === -1 ? results.length : after
+      }
+      const page = results.slice(start, start + limit)
+
+      if (!filteredCount) return "No matching memories"
+      if (!page.length) return `No more memories (${filteredCount} matching)`
+
+      const counts = filteredCount !== totalCount ? `${filteredCount} memories (${totalCount} total)` : `${filteredCount} memories`
+      const orderLabel = sort === "relevance" ? "by relevance" : `${sort} first`
+      const header = page.length < filteredCount
+        ? `Found ${counts}; showing ${start + 1}-${start + page.length} ${orderLabel}\n\n`
+        : `Found ${counts}\n\n`
+      const end = start + page.length
+      const last = page[page.length - 1]!
+      const footer = end < filteredCount
+        ? `\n\nMore: cursor ${encodeCursor(sort === "relevance" ? { sort, offset: end } : { sort, ts: last.ts, id: last.id })} (or offset ${end})`
+        : ""
+
+      const format = (m: Memory) => {
+        const line = formatMemory(m, originLabel(origins.get(m) || "project"))
+        const score = scores.get(m)
+        return score === undefined ? line : `${line} (${score})`
+      }
+
+      let linked = ""
+      if (args.expand_links) {
+        const all = await getAllMemories()
+        const stores = new Map(all.map(({ memory, store }) => [memory, store]))
+        const related = linkedMemories(page, all.map(({ memory }) => memory))
+        if (related.length) {
+          const lines = related.map(
+            ({ memory, relations }) => `${formatMemory(memory, originLabel(stores.get(memory)!))} (${relations.join("; ")})`,
+          )
+          linked = `\n\nLinked:\n${lines.join("\n")}`
+        }
+      }
+
+      const prefix = notes.length ? `${notes.join("\n")}\n` : ""
+      return prefix + header + page.map(format).join("\n") + linked + footer
+    },
+  })
+
+  const byIssue = tool({
+    description: "Gather every memory tied to an issue, grouped by type, plus the memories they link to",
+    args: {
+      issue: tool.schema.string().describe("Issue reference: #51, owner/repo#51 or an issue/pull request URL"),
+    },
+    async execute(args) {
+      const ref = normalizeIssue(args.issue)
+      if (!ref) return "Provide an issue reference"
+      await sweepAllExpired()
+      const all = await getAllMemories()
+      const stores = new Map(all.map(({ memory, store }) => [memory, store]))
+      const tied = all.map(({ memory }) => memory).filter((m) => sameIssue(m.issue, ref))
+      if (!tied.length) return `No memories for issue ${ref}`
+
+      const byType = new Map<string, Memory[]>()
+      for (const m of [...tied].sort((a, b) => a.ts.localeCompare(b.ts))) {
+        if (!byType.has(m.type)) byType.set(m.type, [])
+        byType.get(m.type)!.push(m)
+      }
+      const rank = (type: string) => (ISSUE_TYPE_ORDER.includes(type) ? ISSUE_TYPE_ORDER.indexOf(type) : ISSUE_TYPE_ORDER.length)
+      const types = [...byType.keys()].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+
+      const format = (m: Memory) => formatMemory(m, originLabel(stores.get(m)!))
+      const lines = [`Issue ${ref}: ${tied.length} memories`]
+      for (const type of types) {
+        lines.push("", `${type} (${byType.get(type)!.length}):`, ...byType.get(type)!.map(format))
+      }
+      const related = linkedMemories(tied, all.map(({ memory }) => memory))
+      if (related.length) {
+        lines.push("", "Linked:", ...related.map(({ memory, relations }) => `${format(memory)} (${relations.join("; ")})`))
+      }
+      return lines.join("\n")
+    },
+  })
+
+  const update = tool({
+    description:
+      "Update an existing memory by id, or by scope and type (finds matching memory and updates its content)",
+    args: {
+      id: tool.schema.string().optional().describe("ID of the memory to update (shown in recall output)"),
+      scope: tool.schema.string().optional().describe("Scope of memory to update (required without id)"),
+      type: typeSchema().optional().describe("Type of memory (required without id)"),
+      content: tool.schema.string().describe("The new content for the memory"),
+      query: tool.schema.string().optional().describe("Search term to find specific memory if multiple exist"),
+      issue: tool.schema.string().optional().describe("Update related GitHub issue (e.g., #51)"),
+      tags: tool.schema.array(tool.schema.string()).optional().describe("Update tags"),
+      reason: tool.schema.string().optional().describe("Why the memory changed (kept in its revision history)"),
+      ...linkArgs(),
+    },
+    async execute(args, context) {
+      if (!args.id && (!args.scope || !args.type)) {
+        return "Provide an id, or both scope and type, to select the memory to update"
+      }
+      const badType = args.type ? unknownType(runtime.settings.types, args.type) : undefined
+      if (badType) return badType
+
+      return withMemoryLock(async () => {
+        if (!(await listMemoryFiles()).length) return "No memory files found"
+
+        const matches = await findMemories((m) =>
+          args.id ? m.id === args.id : m.scope === args.scope && m.type === args.type,
+        )
+
+        if (matches.length === 0) {
+          return args.id ? `No memory found with id ${args.id}` : `No memories found for ${args.type} in ${args.scope}`
+        }
+
+        let target: MemoryLocation | undefined = matches[0]
+        if (matches.length > 1) {
+          if (args.id) {
+            return `Found ${matches.length} memories with id ${args.id}. Use recall to inspect them before updating.`
+          }
+          if (args.query) {
+            const [best] = searchMemories(
+              matches.map((m) => m.memory),
+              args.query,
+            )
+
+            if (!best) {
+              return `Found ${matches.length} memories for ${args.type}/${args.scope}, but none matched query "${args.query}". Use recall to see all matches.`
+            }
+            target = matches.find((m) => m.memory === best.memory)
+          } else {
+            return `Found ${matches.length} memories for ${args.type}/${args.scope}. Provide an id or a query to select which one to update, or use recall to see all matches.`
+          }
+        }
+
+        if (!target) {
+          return `No memories found for ${args.type} in ${args.scope}`
+        }
+
+        const redactions: RedactionCounts = {}
+        const { content, scope, issue, tags } = redactMemoryFields(
+          { content: args.content, scope: args.scope, issue: args.issue, tags: args.tags },
+          redactionRules(runtime.settings.redaction),
+          redactions,
+        )
+        const changes = {
+          type: args.type ?? target.memory.type,
+          scope: scope ?? target.memory.scope,
+          content,
+          issue: issue !== undefined ? normalizeIssue(issue) : target.memory.issue,
+          tags: tags !== undefined ? tags : target.memory.tags,
+          expires: target.memory.expires,
+          links: mergeLinks(target.memory.links, linksFromArgs(args)),
+        }
+        const problem =
+          checkMemoryType(runtime.settings.types, changes) || (await checkLinks(linksFromArgs(args), target.memory.id))
+        if (problem) return problem
+
+        const updated = await reviseMemory(target, changes, args.reason)
 
-  const logDeletion = async (memory: Memory, reason: string) => {
-    await ensureDir(runtime.settings.memoryDir)
-    const ts = new Date().toISOString()
-    const content = memory.content.replace(/"/g, '\\"')
-    const originalTs = memory.ts
-    const issue = memory.issue ? ` issue=${memory.issue}` : ""
-    const tags = memory.tags?.length ? ` tags=${memory.tags.join(",")}` : ""
-    const escapedReason = reason.replace(/"/g, '\\"')
-    const line = `ts=${ts} action=deleted original_ts=${originalTs} type=${memory.type} scope=${memory.scope} content="${content}" reason="${escapedReason}"${issue}${tags}\n`
+        await appendSessionLog(context.sessionID, {
+          ts: updated.ts,
+          event: "memory_update",
+          memory_id: updated.id,
+          rev: updated.rev,
+          scope: updated.scope,
+          memory_type: updated.type,
+          content,
+          ...(Object.keys(redactions).length ? { redactions } : {}),
+        })
 
-    const file = Bun.file(`${runtime.settings.memoryDir}/deletions.logfmt`)
-    const existing = (await file.exists()) ? await file.text() : ""
-    await Bun.write(file, existing + line)
-  }
+        const redacted = describeRedactions(redactions)
+        const result = `Updated ${updated.type} in ${updated.scope} (id: ${updated.id}, rev ${updated.rev}): "${content}"`
+        return redacted ? `${result}\n${redacted}` : result
+      })
+    },
+  })
 
-  const appendSessionLog = async (sessionID: string, payload: Record<string, unknown>) => {
-    if (!runtime.settings.logger.enabled) return
+  const listMemories = tool({
+    description: "List the scope tree and types in memory for discovery",
+    args: {},
+    async execute() {
+      await sweepAllExpired()
+      const now = Date.now()
+      const all = await getAllMemories()
+      const live = all.filter(({ memory }) => !isExpired(memory, now))
+      const memories = live.map(({ memory }) => memory)
+      let expiredCount = all.length - live.length
+      for (const store of activeStores()) expiredCount += (await getArchived(store)).length
 
-    const info = await runtime.getSessionInfo(sessionID)
+      if (!memories.length) {
+        return expiredCount ? `No memories found (${expiredCount} expired; recall with include_expired)` : "No memories found"
+      }
 
-    let sessionSlug: string
-    let filename: string
+      // Every node counts the memories in its subtree and the types used there.
+      interface ScopeNode {
+        count: number
+        types: Set<string>
+        children: Map<string, ScopeNode>
+      }
+      const newNode = (): ScopeNode => ({ count: 0, types: new Set(), children: new Map() })
+      const tree = newNode()
+      const types = new Map<string, number>()
 
-    if (info.parentID) {
-      const parentInfo = await runtime.getSessionInfo(info.parentID)
-      sessionSlug = parentInfo.slug
-      const agent = runtime.sessionAgents.get(sessionID) || "subagent"
-      filename = `${agent}-${info.id}.jsonl`
-    } else {
-      sessionSlug = info.slug
-      filename = "main.jsonl"
-    }
+      for (const m of memories) {
+        types.set(m.type, (types.get(m.type) || 0) + 1)
+        let node = tree
+        for (const segment of scopeSegments(m.scope)) {
+          if (!node.children.has(segment)) node.children.set(segment, newNode())
+          node = node.children.get(segment)!
+          node.count++
+          node.types.add(m.type)
+        }
+      }
 
-    const sessionsDir = `${runtime.settings.memoryDir}/sessions/${sessionSlug}`
-    await ensureDir(sessionsDir)
+      const lines: string[] = []
+      lines.push(`Total memories: ${memories.length}`)
+      if (activeStores().length > 1) {
+        const inGlobal = live.filter(({ store }) => store === "global").length
+        lines.push(`Stores: project ${memories.length - inGlobal}, global ${inGlobal}`)
+      }
+      if (expiredCount) lines.push(`Expired (hidden): ${expiredCount}`)
+      lines.push("")
+      lines.push("Scopes:")
+      const render = (node: ScopeNode, depth: number) => {
+        const children = [...node.children.entries()].sort((a, b) => b[1].count - a[1].count || a[0].localeCompare(b[0]))
+        for (const [name, child] of children) {
+          lines.push(`${"  ".repeat(depth)}${name}: ${child.count} (${[...child.types].join(", ")})`)
+          render(child, depth + 1)
+        }
+      }
+      render(tree, 1)
+      lines.push("")
+      lines.push("Types:")
+      for (const [type, count] of [...types.entries()].sort((a, b) => b[1] - a[1])) {
+        lines.push(`  ${type}: ${count}`)
+      }
 
-    const file = Bun.file(`${sessionsDir}/${filename}`)
-    const existing = (await file.exists()) ? await file.text() : ""
-    await Bun.write(file, `${existing}${JSON.stringify(payload)}\n`)
-  }
+      return lines.join("\n")
+    },
+  })
 
-  const remember = tool({
-    description: "Store a memory (decision, learning, preference, blocker, context, pattern)",
+  const forget = tool({
+    description:
+      "Delete a memory by id, or every memory matching scope and type (removes matching lines from all memory files, logs deletion for audit)",
     args: {
-      type: tool.schema
-        .enum(["decision", "learning", "preference", "blocker", "context", "pattern"])
-        .describe("Type of memory"),
-      scope: tool.schema.string().describe("Scope/area (e.g., auth, api, mobile)"),
-      content: tool.schema.string().describe("The memory content"),
-      issue: tool.schema.string().optional().describe("Related GitHub issue (e.g., #51)"),
-      tags: tool.schema.array(tool.schema.string()).optional().describe("Additional tags"),
+      id: tool.schema.string().optional().describe("ID of the single memory to delete (shown in recall output)"),
+      scope: tool.schema.string().optional().describe("Scope of memory to delete (required without id)"),
+      type: typeSchema().optional().describe("Type of memory (required without id)"),
+      reason: tool.schema.string().describe("Why this is being deleted (for audit purposes)"),
     },
     async execute(args, context) {
-      await ensureDir(runtime.settings.memoryDir)
+      if (!args.id && (!args.scope || !args.type)) {
+        return "Provide an id, or both scope and type, to select the memories to delete"
+      }
+      const badType = args.type ? unknownType(runtime.settings.types, args.type) : undefined
+      if (badType) return badType
 
-      const ts = new Date().toISOString()
-      const issue = args.issue ? ` issue=${args.issue}` : ""
-      const tags = args.tags?.length ? ` tags=${args.tags.join(",")}` : ""
-      const content = args.content.replace(/"/g, '\\"')
-      const line = `ts=${ts} type=${args.type} scope=${args.scope} content="${content}"${issue}${tags}\n`
+      const matchesTarget = (memory: Memory) =>
+        args.id ? memory.id === args.id : memory.scope === args.scope && memory.type === args.type
+
+      const deletedMemories: Memory[] = []
+      const auditLogs = new Set<string>()
+
+      // Listed under the lock so a file written or compacted meanwhile is not missed.
+      const found = await withMemoryLock(async () => {
+        const files = await listMemoryFiles()
+        for (const filepath of files) {
+          const dir = dirname(filepath)
+          const text = await Bun.file(filepath).text()
+          const lines = text.split("\n")
+          const removed: Memory[] = []
+          const filtered = lines.filter((line) => {
+            const memory = parseLine(line)
+            if (!memory || !matchesTarget(memory)) return true
+            removed.push(memory)
+            return false
+          })
+          if (!removed.length) continue
 
-      const file = getMemoryFile()
-      const existing = (await file.exists()) ? await file.text() : ""
-      await Bun.write(file, existing + line)
+          await writeFileAtomic(filepath, filtered.join("\n"))
+          await getIndex(dir).reindex(basename(filepath))
+          for (const memory of removed) await logDeletion(memory, args.reason, dir)
+          deletedMemories.push(...removed)
+          auditLogs.add(`${dir}/deletions.logfmt`)
+        }
+        return files.length > 0
+      })
+      if (!found) return "No memory files found"
 
+      const ts = new Date().toISOString()
       await appendSessionLog(context.sessionID, {
         ts,
-        event: "memory_remember",
-        scope: args.scope,
-        memory_type: args.type,
-        content: args.content,
+        event: "memory_forget",
+        memory_id: args.id,
+        scope: args.scope ?? deletedMemories[0]?.scope,
+        memory_type: args.type ?? deletedMemories[0]?.type,
+        reason: args.reason,
       })
 
-      return `Remembered: ${args.type} in ${args.scope}`
+      if (deletedMemories.length === 0) {
+        return args.id ? `No memory found with id ${args.id}` : `No memories found for ${args.type} in ${args.scope}`
+      }
+      const what = args.id ? `memory ${args.id}` : `${deletedMemories.length} ${args.type} memory(s) from ${args.scope}`
+      return `Deleted ${what}. Reason: ${args.reason}\nDeletions logged to ${[...auditLogs].join(", ")}`
     },
   })
 
-  const recall = tool({
-    description: "Retrieve memories by scope, type, or search query",
+  const restore = tool({
+    description:
+      "List recently deleted memories from the audit log, or restore one by id back into the memory files",
     args: {
-      scope: tool.schema.string().optional().describe("Filter by scope"),
-      type: tool.schema
-        .enum(["decision", "learning", "preference", "blocker", "context", "pattern"])
+      id: tool.schema.string().optional().describe("ID of the deleted memory to restore (omit to list deletions)"),
+      deleted_at: tool.schema
+        .string()
         .optional()
-        .describe("Filter by type"),
-      query: tool.schema.string().optional().describe("Search term (space-separated words, matches any)"),
-      limit: tool.schema.number().optional().describe("Max results (default 20)"),
+        .describe("Deletion timestamp to restore when the same id was deleted more than once (default: latest)"),
+      scope: tool.schema.string().optional().describe("Only list deletions in this scope"),
+      type: typeSchema().optional().describe("Only list deletions of this type"),
+      reason: tool.schema.string().optional().describe("Only list deletions whose reason contains this text"),
+      since: tool.schema.string().optional().describe("Only list deletions after this time (ISO date or e.g. 24h, 7d)"),
+      until: tool.schema.string().optional().describe("Only list deletions before this time (ISO date or e.g. 24h, 7d)"),
+      limit: tool.schema.number().optional().describe("Max deletions to list (default 20)"),
     },
-    async execute(args) {
-      let results = await getAllMemories()
+    async execute(args, context) {
+      const { records, restored } = await getDeletions()
+      const isRestored = (r: DeletionRecord & { store: Store }) => restored.has(`${r.store}|${r.deletedAt}|${r.memory.id}`)
 
-      if (!results.length) return "No memories found"
+      if (!args.id) {
+        const since = args.since ? parseTimeBound(args.since) : undefined
+        const until = args.until ? parseTimeBound(args.until) : undefined
+        if (args.since && since === undefined) return `Invalid since value: ${args.since}`
+        if (args.until && until === undefined) return `Invalid until value: ${args.until}`
 
-      const totalCount = results.length
+        const reason = args.reason?.toLowerCase()
+        const matches = records
+          .filter((r) => !args.scope || r.memory.scope === args.scope)
+          .filter((r) => !args.type || r.memory.type === args.type)
+          .filter((r) => !reason || r.reason.toLowerCase().includes(reason))
+          .filter((r) => since === undefined || Date.parse(r.deletedAt) >= since)
+          .filter((r) => until === undefined || Date.parse(r.deletedAt) <= until)
+          .reverse()
 
-      if (args.scope) {
-        results = results.filter((m) => m.scope === args.scope || m.scope.includes(args.scope!))
-      }
-      if (args.type) {
-        results = results.filter((m) => m.type === args.type)
-      }
+        if (!matches.length) return "No matching deletions"
 
-      if (args.query) {
-        const words = args.query.toLowerCase().split(/\s+/).filter(Boolean)
-        const scored = results
-          .map((m) => ({ memory: m, score: scoreMatch(m, words) }))
-          .filter((x) => x.score > 0)
-          .sort((a, b) => b.score - a.score)
-        results = scored.map((x) => x.memory)
+        const limit = args.limit || 20
+        const header = matches.length > limit
+          ? `Found ${matches.length} deletions (showing newest ${limit})\n\n`
+          : `Found ${matches.length} deletions\n\n`
+        const lines = matches.slice(0, limit).map((r) => {
+          const status = isRestored(r) ? " [restored]" : ""
+          return `${r.deletedAt} ${formatMemory(r.memory, originLabel(r.store))}\n  reason: ${r.reason}${status}`
+        })
+        return header + lines.join("\n")
       }
 
-      const filteredCount = results.length
-      const limit = args.limit || 20
-      const limited = results.slice(-limit)
+      const ts = new Date().toISOString()
+      const outcome = await withMemoryLock(async () => {
+        // Re-read under the lock so two concurrent restores can't both succeed.
+        const { records, restored } = await getDeletions()
+        const candidates = records.filter(
+          (r) => r.memory.id === args.id && (!args.deleted_at || r.deletedAt === args.deleted_at),
+        )
+        const record = candidates[candidates.length - 1]
+        if (!record) return `No deletion found for id ${args.id}`
+        if (restored.has(`${record.store}|${record.deletedAt}|${record.memory.id}`)) {
+          return `Deletion of ${args.id} at ${record.deletedAt} was already restored`
+        }
+
+        const existing = await findMemories((m) => m.id === record.memory.id)
+        if (existing.length) {
+          return `Memory ${args.id} still exists. Use memory_update to change it, or forget it before restoring.`
+        }
 
-      if (!limited.length) return "No matching memories"
+        const dir = storeDir(record.store)
+        const filename = await recordFilename(dir, record.memory.ts)
+        await appendLine(`${dir}/${filename}`, serializeMemory(record.memory))
+        await getIndex(dir).reindex(filename)
+        await appendLine(
+          `${dir}/deletions.logfmt`,
+          encodeLogfmt([
+            ["ts", ts],
+            ["action", "restored"],
+            ["deletion_ts", record.deletedAt],
+            ["id", record.memory.id],
+            ["type", record.memory.type],
+            ["scope", record.memory.scope],
+          ]),
+        )
+        return { record, filename }
+      })
+      if (typeof outcome === "string") return outcome
+      const { record, filename } = outcome
 
-      const header = filteredCount > limit
-        ? `Found ${filteredCount} memories (showing last ${limit} of ${totalCount} total)\n\n`
-        : filteredCount !== totalCount
-          ? `Found ${filteredCount} memories (${totalCount} total)\n\n`
-          : `Found ${filteredCount} memories\n\n`
+      await appendSessionLog(context.sessionID, {
+        ts,
+        event: "memory_restore",
+        memory_id: record.memory.id,
+        scope: record.memory.scope,
+        memory_type: record.memory.type,
+        deletion_ts: record.deletedAt,
+      })
 
-      return header + limited.map(formatMemory).join("\n")
+      return `Restored ${record.memory.type} in ${record.memory.scope} (id: ${record.memory.id}) into ${filename}`
     },
   })
 
-  const update = tool({
-    description: "Update an existing memory by scope and type (finds matching memory and updates its content)",
+  const history = tool({
+    description: "Show the revision history of a memory, diff two revisions, or roll back to an earlier revision",
     args: {
-      scope: tool.schema.string().describe("Scope of memory to update"),
-      type: tool.schema
-        .enum(["decision", "learning", "preference", "blocker", "context", "pattern"])
-        .describe("Type of memory"),
-      content: tool.schema.string().describe("The new content for the memory"),
-      query: tool.schema.string().optional().describe("Search term to find specific memory if multiple exist"),
-      issue: tool.schema.string().optional().describe("Update related GitHub issue (e.g., #51)"),
-      tags: tool.schema.array(tool.schema.string()).optional().describe("Update tags"),
+      id: tool.schema.string().describe("ID of the memory"),
+      action: tool.schema.enum(["show", "diff", "rollback"]).optional().describe("What to do (default show)"),
+      rev: tool.schema
+        .number()
+        .optional()
+        .describe("Revision to diff from (default: previous) or to roll back to (required for rollback)"),
+      to_rev: tool.schema.number().optional().describe("Revision to diff against (default: current)"),
+      reason: tool.schema.string().optional().describe("Why the rollback is happening (kept in history)"),
     },
     async execute(args, context) {
-      const dir = Bun.file(runtime.settings.memoryDir)
-      if (!(await dir.exists())) return "No memory files found"
+      const revisions = await getRevisions(args.id)
+      if (!revisions.length) return `No memory or history found for id ${args.id}`
 
-      const glob = new Bun.Glob("*.logfmt")
-      const files = await Array.fromAsync(glob.scan(runtime.settings.memoryDir))
+      const revOf = (r: Revision) => r.memory.rev || 1
+      const findRev = (rev: number) => revisions.find((r) => revOf(r) === rev)
+      const latest = revisions[revisions.length - 1]!
+      const action = args.action || "show"
 
-      if (!files.length) return "No memory files found"
-
-      const matches: { memory: Memory; filepath: string; lineIndex: number }[] = []
+      if (action === "show") {
+        const lines = [`History for ${args.id} (${revisions.length} revision(s)${latest.current ? "" : ", deleted"})`, ""]
+        for (const r of revisions) {
+          lines.push(`rev ${revOf(r)}${r.current ? " (current)" : ""} ${formatMemory(r.memory)}`)
+          if (r.replacedAt) lines.push(`  replaced ${r.replacedAt}${r.reason ? `: ${r.reason}` : ""}`)
+        }
+        return lines.join("\n")
+      }
 
-      for (const filename of files) {
-        if (filename === "deletions.logfmt") continue
-        const filepath = `${runtime.settings.memoryDir}/${filename}`
-        const file = Bun.file(filepath)
-        const text = await file.text()
-        const lines = text.split("\n")
+      if (action === "diff") {
+        const toRev = args.to_rev ?? revOf(latest)
+        const fromRev = args.rev ?? toRev - 1
+        const from = findRev(fromRev)
+        const to = findRev(toRev)
+        if (!from || !to) return `Revision ${from ? toRev : fromRev} not found for ${args.id}`
 
-        lines.forEach((line, lineIndex) => {
-          const memory = parseLine(line)
-          if (!memory) return
-          if (memory.scope === args.scope && memory.type === args.type) {
-            matches.push({ memory, filepath, lineIndex })
-          }
-        })
+        const lines = [`Diff ${args.id} rev ${fromRev} -> rev ${toRev}`, ""]
+        if (from.memory.type !== to.memory.type) lines.push(`type: ${from.memory.type} -> ${to.memory.type}`)
+        if (from.memory.scope !== to.memory.scope) lines.push(`scope: ${from.memory.scope} -> ${to.memory.scope}`)
+        if ((from.memory.issue || "") !== (to.memory.issue || "")) {
+          lines.push(`issue: ${from.memory.issue || "(none)"} -> ${to.memory.issue || "(none)"}`)
+        }
+        const fromTags = from.memory.tags?.join(",") || ""
+        const toTags = to.memory.tags?.join(",") || ""
+        if (fromTags !== toTags) lines.push(`tags: ${fromTags || "(none)"} -> ${toTags || "(none)"}`)
+        lines.push(`content: ${diffWords(from.memory.content, to.memory.content)}`)
+        if (from.replacedAt) lines.push(`changed ${from.replacedAt}${from.reason ? `: ${from.reason}` : ""}`)
+        return lines.join("\n")
       }
 
-      if (matches.length === 0) {
-        return `No memories found for ${args.type} in ${args.scope}`
-      }
+      if (args.rev === undefined) return "Provide rev to roll back to"
+      const source = findRev(args.rev)
+      if (!source) return `Revision ${args.rev} not found for ${args.id}`
+      if (source.current) return `Revision ${args.rev} is already current`
+
+      const revised = await withMemoryLock(async () => {
+        const [target] = await findMemories((m) => m.id === args.id)
+        if (!target) return undefined
+        return reviseMemory(
+          target,
+          {
+            type: source.memory.type,
+            scope: source.memory.scope,
+            content: source.memory.content,
+            issue: source.memory.issue,
+            tags: source.memory.tags,
+            expires: target.memory.expires,
+            links: source.memory.links,
+          },
+          args.reason || `Rolled back to rev ${args.rev}`,
+        )
+      })
+      if (!revised) return `Memory ${args.id} no longer exists. Use memory_restore first.`
+
+      await appendSessionLog(context.sessionID, {
+        ts: revised.ts,
+        event: "memory_rollback",
+        memory_id: revised.id,
+        rev: revised.rev,
+        rolled_back_to: args.rev,
+        scope: revised.scope,
+        memory_type: revised.type,
+      })
+
+      return `Rolled back ${args.id} to rev ${args.rev} (now rev ${revised.rev}): "${revised.content}"`
+    },
+  })
+
+  const moveScopeTool = tool({
+    description:
+      "Rename or move a scope and everything below it (e.g. backend/auth -> services/auth) in every memory file, keeping each old version in history",
+    args: {
+      from: tool.schema.string().describe("Scope to move; its sub-scopes move with it"),
+      to: tool.schema.string().describe("New scope"),
+      reason: tool.schema.string().optional().describe("Why the scope moved (kept in history)"),
+      dry_run: tool.schema.boolean().optional().describe("Only list the scopes that would change"),
+    },
+    async execute(args, context) {
+      if (!scopeSegments(args.from).length || !scopeSegments(args.to).length) return "Provide non-empty from and to scopes"
 
-      let target: typeof matches[number] | undefined = matches[0]
-      if (matches.length > 1) {
-        if (args.query) {
-          const words = args.query.toLowerCase().split(/\s+/).filter(Boolean)
-          const scored = matches
-            .map((m) => ({ ...m, score: scoreMatch(m.memory, words) }))
-            .filter((x) => x.score > 0)
-            .sort((a, b) => b.score - a.score)
+      const outcome = await withMemoryLock(async () => {
+        const matches = await findMemories((m) => moveScope(m.scope, args.from, args.to) !== undefined)
+        const renames = new Map<string, { to: string; count: number }>()
+        for (const { memory } of matches) {
+          const entry = renames.get(memory.scope) || { to: moveScope(memory.scope, args.from, args.to)!, count: 0 }
+          entry.count++
+          renames.set(memory.scope, entry)
+        }
+        if (!matches.length || args.dry_run) return { count: matches.length, renames }
 
-          if (scored.length === 0) {
-            return `Found ${matches.length} memories for ${args.type}/${args.scope}, but none matched query "${args.query}". Use recall to see all matches.`
+        const ts = new Date().toISOString()
+        const reason = `Moved scope ${args.from} to ${args.to}${args.reason ? `: ${args.reason}` : ""}`
+        const byFile = new Map<string, MemoryLocation[]>()
+        for (const location of matches) {
+          if (!byFile.has(location.filepath)) byFile.set(location.filepath, [])
+          byFile.get(location.filepath)!.push(location)
+        }
+        for (const [filepath, locations] of byFile) {
+          const dir = dirname(filepath)
+          const lines = (await Bun.file(filepath).text()).split("\n")
+          for (const { memory, lineIndex } of locations) {
+            await appendLine(`${dir}/history.logfmt`, serializeHistory(memory, ts, reason))
+            // A rename is not new knowledge: ts stays, and the move shows up in rev and history.
+            const moved: Memory = { ...memory, scope: renames.get(memory.scope)!.to, rev: (memory.rev || 1) + 1 }
+            lines[lineIndex] = serializeMemory(moved)
           }
-          target = scored[0]
-        } else {
-          return `Found ${matches.length} memories for ${args.type}/${args.scope}. Provide a query to select which one to update, or use recall to see all matches.`
+          await writeFileAtomic(filepath, lines.join("\n"))
+          await getIndex(dir).reindex(basename(filepath))
         }
-      }
+        return { count: matches.length, renames }
+      })
 
-      if (!target) {
-        return `No memories found for ${args.type} in ${args.scope}`
+      if (!outcome.count) return `No memories in scope ${args.from} or below`
+      const lines = [
+        `${args.dry_run ? "Would move" : "Moved"} ${outcome.count} memories from ${args.from} to ${args.to}:`,
+        ...[...outcome.renames].map(([from, { to, count }]) => `  ${from} -> ${to} (${count})`),
+      ]
+      if (!args.dry_run) {
+        await appendSessionLog(context.sessionID, {
+          ts: new Date().toISOString(),
+          event: "memory_move_scope",
+          scope: args.from,
+          to: args.to,
+          memories: outcome.count,
+          reason: args.reason,
+        })
       }
+      return lines.join("\n")
+    },
+  })
 
-      await logDeletion(target.memory, `Updated to: ${args.content}`)
-
-      const file = Bun.file(target.filepath)
-      const text = await file.text()
-      const lines = text.split("\n")
+  const promote = tool({
+    description: "Move a project memory into the global store so it is recalled in every repository",
+    args: {
+      id: tool.schema.string().describe("ID of the project memory to promote"),
+      reason: tool.schema.string().optional().describe("Why it applies everywhere (kept in the project audit log)"),
+    },
+    async execute(args, context) {
+      if (!activeStores().includes("global")) {
+        return "Global memory store is disabled (set globalMemoryDir in memory-log.json)"
+      }
 
+      const projectDir = storeDir("project")
+      const globalDir = storeDir("global")
       const ts = new Date().toISOString()
-      const issue = args.issue !== undefined ? args.issue : target.memory.issue
-      const tags = args.tags !== undefined ? args.tags : target.memory.tags
-      const issueStr = issue ? ` issue=${issue}` : ""
-      const tagsStr = tags?.length ? ` tags=${tags.join(",")}` : ""
-      const content = args.content.replace(/"/g, '\\"')
-      const newLine = `ts=${ts} type=${args.type} scope=${args.scope} content="${content}"${issueStr}${tagsStr}`
+      const outcome = await withMemoryLock(async () => {
+        const [source] = await getIndex(projectDir).locations((m) => m.id === args.id)
+        if (!source) {
+          const [existing] = await getIndex(globalDir).locations((m) => m.id === args.id)
+          return existing ? `Memory ${args.id} is already in the global store` : `No project memory found with id ${args.id}`
+        }
+
+        // Write the global copy before removing the project line, so a crash leaves a duplicate rather than nothing.
+        const filename = await recordFilename(globalDir, source.memory.ts)
+        const path = `${globalDir}/${filename}`
+        await ensureDir(globalDir)
+        const offset = (await stat(path).catch(() => undefined))?.size ?? 0
+        await appendLine(path, serializeMemory(source.memory))
+        await getIndex(globalDir).appended(filename, offset)
 
-      lines[target.lineIndex] = newLine
-      await Bun.write(target.filepath, lines.join("\n"))
+        const lines = (await Bun.file(source.filepath).text()).split("\n")
+        lines.splice(source.lineIndex, 1)
+        await writeFileAtomic(source.filepath, lines.join("\n"))
+        await getIndex(projectDir).reindex(basename(source.filepath))
+        await appendLine(
+          `${projectDir}/deletions.logfmt`,
+          serializeDeletion(source.memory, ts, args.reason || "promoted to global store", "promoted"),
+        )
+        return source.memory
+      }, ["project", "global"])
+      if (typeof outcome === "string") return outcome
 
       await appendSessionLog(context.sessionID, {
         ts,
-        event: "memory_update",
-        scope: args.scope,
-        memory_type: args.type,
-        content: args.content,
+        event: "memory_promote",
+        memory_id: outcome.id,
+        scope: outcome.scope,
+        memory_type: outcome.type,
+        reason: args.reason,
       })
 
-      return `Updated ${args.type} in ${args.scope}: "${args.content}"`
+      return `Promoted ${outcome.type} in ${outcome.scope} (id: ${outcome.id}) to the global store`
     },
   })
 
-  const listMemories = tool({
-    description: "List all unique scopes and types in memory for discovery",
-    args: {},
-    async execute() {
-      const memories = await getAllMemories()
-
-      if (!memories.length) return "No memories found"
+  const dedupe = tool({
+    description: "Scan all memories for likely duplicates and contradictions and suggest which to merge",
+    args: {
+      scope: tool.schema.string().optional().describe("Only scan this scope"),
+      type: typeSchema().optional().describe("Only scan this type"),
+      threshold: tool.schema
+        .number()
+        .optional()
+        .describe("Similarity (0-1) at which two memories count as duplicates (default from settings)"),
+    },
+    async execute(args) {
+      const threshold = args.threshold ?? runtime.settings.duplicates.threshold
+      const now = Date.now()
+      const groups = new Map<string, { memory: Memory; store: Store }[]>()
+      for (const entry of await getAllMemories()) {
+        const { memory } = entry
+        if (isExpired(memory, now) || (args.scope && memory.scope !== args.scope) || (args.type && memory.type !== args.type)) {
+          continue
+        }
+        const key = `${memory.type}/${memory.scope}`
+        if (!groups.has(key)) groups.set(key, [])
+        groups.get(key)!.push(entry)
+      }
 
-      const scopes = new Map<string, number>()
-      const types = new Map<string, number>()
-      const scopeTypes = new Map<string, Set<string>>()
+      // Duplicates are clustered transitively; the newest memory of a cluster is the one to keep.
+      const clusters: { key: string; members: { memory: Memory; store: Store; similarity?: number }[] }[] = []
+      const contradictions: { key: string; pair: { memory: Memory; store: Store }[]; similarity: number }[] = []
+      for (const [key, entries] of groups) {
+        const parent = entries.map((_, i) => i)
+        const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i]!)))
+        const similarityTo = new Map<number, number>()
+        for (let i = 0; i < entries.length; i++) {
+          for (let j = i + 1; j < entries.length; j++) {
+            const conflict = classifyConflict(entries[i]!.memory.content, entries[j]!.memory, threshold)
+            if (!conflict) continue
+            if (conflict.kind === "contradiction") {
+              contradictions.push({ key, pair: [entries[i]!, entries[j]!], similarity: conflict.similarity })
+              continue
+            }
+            parent[root(j)] = root(i)
+            similarityTo.set(j, Math.max(similarityTo.get(j) || 0, conflict.similarity))
+            similarityTo.set(i, Math.max(similarityTo.get(i) || 0, conflict.similarity))
+          }
+        }
 
-      for (const m of memories) {
-        scopes.set(m.scope, (scopes.get(m.scope) || 0) + 1)
-        types.set(m.type, (types.get(m.type) || 0) + 1)
-        if (!scopeTypes.has(m.scope)) scopeTypes.set(m.scope, new Set())
-        scopeTypes.get(m.scope)!.add(m.type)
+        const byRoot = new Map<number, number[]>()
+        entries.forEach((_, i) => {
+          const r = root(i)
+          if (!byRoot.has(r)) byRoot.set(r, [])
+          byRoot.get(r)!.push(i)
+        })
+        for (const indices of byRoot.values()) {
+          if (indices.length < 2) continue
+          const members = indices
+            .map((i) => ({ ...entries[i]!, similarity: similarityTo.get(i) }))
+            .sort((a, b) => newestFirst(a.memory, b.memory))
+          clusters.push({ key, members })
+        }
       }
 
+      if (!clusters.length && !contradictions.length) return `No likely duplicates or contradictions (threshold ${threshold})`
+
       const lines: string[] = []
-      lines.push(`Total memories: ${memories.length}`)
-      lines.push("")
-      lines.push("Scopes:")
-      for (const [scope, count] of [...scopes.entries()].sort((a, b) => b[1] - a[1])) {
-        const typeList = [...scopeTypes.get(scope)!].join(", ")
-        lines.push(`  ${scope}: ${count} (${typeList})`)
+      if (clusters.length) {
+        lines.push(`Found ${clusters.length} group(s) of likely duplicates (threshold ${threshold})`)
+        for (const { key, members } of clusters) {
+          const [keep, ...rest] = members
+          lines.push("", `${key}:`, `  keep  ${formatMemory(keep!.memory, originLabel(keep!.store))}`)
+          for (const m of rest) {
+            lines.push(`  merge ${formatMemory(m.memory, originLabel(m.store))} (similarity ${(m.similarity || 0).toFixed(2)})`)
+          }
+        }
+        lines.push("", "To merge, copy any missing details into the kept memory with memory_update, then memory_forget the others by id.")
       }
-      lines.push("")
-      lines.push("Types:")
-      for (const [type, count] of [...types.entries()].sort((a, b) => b[1] - a[1])) {
-        lines.push(`  ${type}: ${count}`)
+      if (contradictions.length) {
+        if (lines.length) lines.push("")
+        lines.push(`Found ${contradictions.length} possible contradiction(s)`)
+        for (const { key, pair, similarity } of contradictions) {
+          lines.push("", `${key} (similarity ${similarity.toFixed(2)}):`)
+          for (const { memory, store } of pair) lines.push(`  ${formatMemory(memory, originLabel(store))}`)
+        }
+      }
+      return lines.join("\n")
+    },
+  })
+
+  const compact = tool({
+    description:
+      "Merge a store's daily memory files into one sorted file, dropping blank and malformed lines (with a backup), or undo a compaction",
+    args: {
+      action: tool.schema.enum(["compact", "undo"]).optional().describe("compact (default) or undo from a backup"),
+      store: tool.schema.enum(["project", "global"]).optional().describe("Which store (default project)"),
+      dry_run: tool.schema.boolean().optional().describe("Only report what compaction would do"),
+      backup: tool.schema.string().optional().describe("Backup to restore on undo (default: newest)"),
+    },
+    async execute(args, context) {
+      const store = args.store || "project"
+      if (!activeStores().includes(store)) return "Global memory store is disabled (set globalMemoryDir in memory-log.json)"
+      const dir = storeDir(store)
+
+      if (args.action === "undo") {
+        let result: Awaited<ReturnType<typeof restoreMemoryBackup>>
+        try {
+          result = await restoreMemoryBackup(dir, args.backup)
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error)
+        }
+        await appendSessionLog(context.sessionID, {
+          ts: new Date().toISOString(),
+          event: "memory_compact_undo",
+          store,
+          backup: result.restored,
+        })
+        return `Restored ${result.files.length} file(s) from backup ${result.restored}. The replaced files were saved as backup ${result.backup}.`
       }
 
+      const report = await compactMemoryDir(dir, { dryRun: args.dry_run })
+      if (!report.files.length) return "No memory files to compact"
+
+      const lines = [
+        `${args.dry_run ? "Would compact" : "Compacted"} ${report.memories} memories from ${report.files.length} file(s) into ${CANONICAL_FILE}`,
+      ]
+      const dropped = [`${report.blank} blank`, `${report.duplicates} duplicate`, `${report.malformed.length} malformed`]
+      lines.push(`${args.dry_run ? "Would drop" : "Dropped"} ${dropped.join(", ")} line(s)`)
+      for (const { file, line, text } of report.malformed) {
+        lines.push(`  ${file}:${line}: ${text.length > 120 ? `${text.slice(0, 117)}...` : text}`)
+      }
+      if (report.backup) {
+        lines.push(`Backup: ${join(dir, BACKUPS_DIR, report.backup)} (undo with action "undo")`)
+        await appendSessionLog(context.sessionID, {
+          ts: new Date().toISOString(),
+          event: "memory_compact",
+          store,
+          memories: report.memories,
+          malformed: report.malformed.length,
+          backup: report.backup,
+        })
+      }
       return lines.join("\n")
     },
   })
 
-  const forget = tool({
-    description: "Delete a memory by scope and type (removes matching lines from all memory files, logs deletion for audit)",
+  const resolvePath = (path: string) => (isAbsolute(path) ? path : join(runtime.projectDir, path))
+
+  const exportMemories = tool({
+    description: "Export memories as JSON, JSONL or a Markdown document grouped by scope and type (e.g. a checked-in MEMORY.md)",
     args: {
-      scope: tool.schema.string().describe("Scope of memory to delete"),
-      type: tool.schema
-        .enum(["decision", "learning", "preference", "blocker", "context", "pattern"])
-        .describe("Type of memory"),
-      reason: tool.schema.string().describe("Why this is being deleted (for audit purposes)"),
+      format: tool.schema.enum(["json", "jsonl", "markdown"]).optional().describe("Output format (default from path, else markdown)"),
+      path: tool.schema.string().optional().describe("File to write, relative to the project (omit to return the document)"),
+      store: tool.schema.enum(["project", "global"]).optional().describe("Only export one store (default: all)"),
+      scope: tool.schema.string().optional().describe("Only export this scope"),
+      type: typeSchema().optional().describe("Only export this type"),
+      include_expired: tool.schema.boolean().optional().describe("Also export expired memories that are not archived yet"),
+    },
+    async execute(args, context) {
+      const badType = args.type ? unknownType(runtime.settings.types, args.type) : undefined
+      if (badType) return badType
+      const format = args.format || (args.path ? detectFormat("", args.path) : "markdown")
+      const now = Date.now()
+      const memories = (await getAllMemories())
+        .filter(({ store }) => !args.store || store === args.store)
+        .map(({ memory }) => memory)
+        .filter((m) => (!args.scope || m.scope === args.scope) && (!args.type || m.type === args.type))
+        .filter((m) => args.include_expired || !isExpired(m, now))
+      const document = formatExchange(memories, format)
+      if (!args.path) return document
+
+      const path = resolvePath(args.path)
+      await ensureDir(dirname(path))
+      await writeFileAtomic(path, document)
+      await appendSessionLog(context.sessionID, {
+        ts: new Date().toISOString(),
+        event: "memory_export",
+        format,
+        path,
+        memories: memories.length,
+      })
+      return `Exported ${memories.length} memories to ${path} (${format})`
+    },
+  })
+
+  const importMemories = tool({
+    description: "Import memories from a JSON, JSONL or Markdown export, with conflict handling and a dry-run report",
+    args: {
+      path: tool.schema.string().optional().describe("File to import, relative to the project"),
+      content: tool.schema.string().optional().describe("Document to import when no path is given"),
+      format: tool.schema.enum(["json", "jsonl", "markdown"]).optional().describe("Input format (default: detected)"),
+      on_conflict: tool.schema
+        .enum(["skip", "overwrite", "duplicate"])
+        .optional()
+        .describe(
+          "When an imported id already exists: skip it (default), overwrite the existing memory as a new revision, or import a copy with a new id",
+        ),
+      store: tool.schema.enum(["project", "global"]).optional().describe("Store for new memories (default project)"),
+      dry_run: tool.schema.boolean().optional().describe("Only report what would be imported"),
     },
     async execute(args, context) {
-      const dir = Bun.file(runtime.settings.memoryDir)
-      if (!(await dir.exists())) return "No memory files found"
+      const store = args.store || "project"
+      if (!activeStores().includes(store)) return "Global memory store is disabled (set globalMemoryDir in memory-log.json)"
+      if (!args.path && args.content === undefined) return "Provide a path or content to import"
 
-      const glob = new Bun.Glob("*.logfmt")
-      const files = await Array.fromAsync(glob.scan(runtime.settings.memoryDir))
+      let text = args.content ?? ""
+      if (args.path) {
+        const file = Bun.file(resolvePath(args.path))
+        if (!(await file.exists())) return `File not found: ${resolvePath(args.path)}`
+        text = await file.text()
+      }
+      const format = args.format || detectFormat(text, args.path)
+      const { records, invalid } = parseExchange(text, format)
+      const onConflict = args.on_conflict || "skip"
+      const dir = storeDir(store)
 
-      if (!files.length) return "No memory files found"
+      const counts = { added: 0, overwritten: 0, duplicated: 0, skipped: 0, unchanged: 0 }
+      const rules = redactionRules(runtime.settings.redaction)
+      const redactions: RedactionCounts = {}
+      // Lock the target store, plus any other existing store an overwrite could revise.
+      const locked: Store[] = []
+      for (const other of activeStores()) {
+        if (other === store || (await dirExists(storeDir(other)))) locked.push(other)
+      }
+      await withMemoryLock(async () => {
+        // A dry run writes nothing, so ids it would have added are tracked to catch repeats.
+        const planned = new Set<string>()
+        for (const [i, record] of records.entries()) {
+          const parsed = memoryFromJSON(record)
+          if (!parsed) {
+            invalid.push(`entry ${i + 1}: needs type, scope and content`)
+            continue
+          }
+          const imported = redactMemoryFields(parsed, rules, redactions)
+          const problem = checkMemoryType(runtime.settings.types, imported)
+          if (problem) {
+            invalid.push(`entry ${i + 1}: ${problem}`)
+            continue
+          }
+          const memory: Memory = { ...imported, id: imported.id || generateId(), ts: imported.ts || new Date().toISOString() }
+          const [existing] = await findMemories((m) => m.id === memory.id)
 
-      let deleted = 0
-      const deletedMemories: Memory[] = []
+          if (existing || planned.has(memory.id)) {
+            const changes = {
+              type: memory.type,
+              scope: memory.scope,
+              content: memory.content,
+              issue: memory.issue,
+              tags: memory.tags,
+              expires: memory.expires,
+              links: memory.links,
+            }
+            if (existing && serializeMemory({ ...existing.memory, ...changes }) === serializeMemory(existing.memory)) {
+              counts.unchanged++
+              continue
+            }
+            if (onConflict === "skip") {
+              counts.skipped++
+              continue
+            }
+            if (onConflict === "overwrite") {
+              if (existing && !args.dry_run) await reviseMemory(existing, changes, "Overwritten by memory_import")
+              counts.overwritten++
+              continue
+            }
+            memory.id = generateId()
+            counts.duplicated++
+          } else {
+            counts.added++
+          }
 
-      for (const filename of files) {
-        if (filename === "deletions.logfmt") continue
-        const filepath = `${runtime.settings.memoryDir}/${filename}`
-        const file = Bun.file(filepath)
-        const text = await file.text()
-        const lines = text.split("\n")
-        const filtered = lines.filter((line) => {
-          const memory = parseLine(line)
-          if (!memory) return true
-          if (memory.scope === args.scope && memory.type === args.type) {
-            deleted++
-            deletedMemories.push(memory)
-            return false
+          if (args.dry_run) {
+            planned.add(memory.id)
+            continue
           }
-          return true
+          const filename = await recordFilename(dir, memory.ts)
+          const path = `${dir}/${filename}`
+          await ensureDir(dir)
+          const offset = (await stat(path).catch(() => undefined))?.size ?? 0
+          await appendLine(path, serializeMemory(memory))
+          await getIndex(dir).appended(filename, offset)
+        }
+      }, locked)
+
+      const summary = [
+        `${counts.added} new`,
+        `${counts.overwritten} overwritten`,
+        `${counts.duplicated} duplicated`,
+        `${counts.skipped} skipped`,
+        `${counts.unchanged} unchanged`,
+      ].join(", ")
+      const lines = [`${args.dry_run ? "Would import" : "Imported"} ${records.length} record(s) (${format}): ${summary}`]
+      if (invalid.length) lines.push(`${invalid.length} invalid:`, ...invalid.map((reason) => `  ${reason}`))
+      const redacted = describeRedactions(redactions)
+      if (redacted) lines.push(redacted)
+
+      if (!args.dry_run) {
+        await appendSessionLog(context.sessionID, {
+          ts: new Date().toISOString(),
+          event: "memory_import",
+          format,
+          path: args.path ? resolvePath(args.path) : undefined,
+          ...counts,
+          ...(Object.keys(redactions).length ? { redactions } : {}),
         })
-        if (filtered.length !== lines.length) {
-          await Bun.write(filepath, filtered.join("\n"))
+      }
+      return lines.join("\n")
+    },
+  })
+
+  const readSessionLogs = async (): Promise<SessionLog[]> => {
+    // A logger.dir with write placeholders spreads a session over several directories.
+    const { root, pattern } = templateGlob(runtime.settings.logger.dir)
+    if (!(await dirExists(root))) return []
+    const glob = `${pattern ? `${pattern}/` : ""}sessions/*/*.{jsonl,jsonl.gz}`
+    // Rotated generations are read oldest first, followed by the live file.
+    const files = new Map<string, { path: string; generation: number }[]>()
+    for await (const path of new Bun.Glob(glob).scan(root)) {
+      const [slug = "", filename = ""] = path.split("/").slice(-2)
+      const parsed = parseLogFilename(filename)
+      if (!parsed) continue
+      const key = `${slug}/${parsed.name}.jsonl`
+      files.set(key, [...(files.get(key) || []), { path: `${root}/${path}`, generation: parsed.generation }])
+    }
+
+    const logs: SessionLog[] = []
+    for (const [key, parts] of files) {
+      const texts: string[] = []
+      const ordered = parts.sort((a, b) => dirname(a.path).localeCompare(dirname(b.path)) || b.generation - a.generation)
+      for (const { path } of ordered) {
+        const file = Bun.file(path)
+        texts.push(path.endsWith(".gz") ? new TextDecoder().decode(Bun.gunzipSync(await file.bytes())) : await file.text())
+      }
+      const [slug = "", filename = ""] = key.split("/")
+      logs.push(parseSessionLog(slug, filename, texts.join("\n")))
+    }
+    return logs
+  }
+
+  const logsQuery = tool({
+    description:
+      "Read the JSONL session logs: list sessions with their subagent tree, or show a filtered timeline of events with tool call durations",
+    args: {
+      session: tool.schema.string().optional().describe("Session id or slug whose timeline to show, subagents included"),
+      tool: tool.schema.string().optional().describe("Only events of this tool"),
+      agent: tool.schema.string().optional().describe("Only events of this agent"),
+      event: tool.schema.string().optional().describe("Only this event kind (e.g. chat_message, tool_execute_after, memory_remember)"),
+      since: tool.schema.string().optional().describe("Only events after this time (ISO date or e.g. 24h, 7d)"),
+      until: tool.schema.string().optional().describe("Only events before this time (ISO date or e.g. 24h, 7d)"),
+      limit: tool.schema.number().optional().describe("Max timeline entries, most recent kept (default 100)"),
+    },
+    async execute(args) {
+      const since = args.since ? parseTimeBound(args.since) : undefined
+      const until = args.until ? parseTimeBound(args.until) : undefined
+      if (args.since && since === undefined) return `Invalid since value: ${args.since}`
+      if (args.until && until === undefined) return `Invalid until value: ${args.until}`
+
+      const logs = await readSessionLogs()
+      if (!logs.length) return `No session logs in ${runtime.settings.logger.dir}/sessions`
+
+      // Sessions whose parent has no log of its own are shown as roots.
+      const ids = new Set(logs.map((log) => log.id))
+      const children = new Map<string, SessionLog[]>()
+      for (const log of logs) {
+        if (!log.parentID || !ids.has(log.parentID)) continue
+        children.set(log.parentID, [...(children.get(log.parentID) || []), log])
+      }
+      const started = (log: SessionLog) => log.events[0]?.ts || ""
+      const byStart = (a: SessionLog, b: SessionLog) => started(a).localeCompare(started(b))
+
+      if (!args.session && !args.tool && !args.agent && !args.event && !args.since && !args.until) {
+        const roots = logs.filter((log) => !log.parentID || !ids.has(log.parentID)).sort(byStart)
+        const lines = [`Sessions (${roots.length}):`]
+        const render = (log: SessionLog, depth: number) => {
+          const label = depth ? `${log.agent} ${log.id}` : `${log.slug} (${log.id})`
+          const span = log.events.length ? `, ${started(log)} to ${log.events[log.events.length - 1]!.ts}` : ""
+          lines.push(`${"  ".repeat(depth + 1)}${label}: ${log.events.length} events${span}`)
+          for (const child of (children.get(log.id) || []).sort(byStart)) render(child, depth + 1)
         }
+        for (const root of roots) render(root, 0)
+        return lines.join("\n")
       }
 
-      for (const memory of deletedMemories) {
-        await logDeletion(memory, args.reason)
+      let selected = logs
+      if (args.session) {
+        const seen = new Set<SessionLog>()
+        const visit = (log: SessionLog) => {
+          if (seen.has(log)) return
+          seen.add(log)
+          for (const child of children.get(log.id) || []) visit(child)
+        }
+        logs.filter((log) => log.id === args.session || log.slug === args.session).forEach(visit)
+        if (!seen.size) return `No session log for ${args.session}`
+        selected = [...seen]
       }
 
-      const ts = new Date().toISOString()
-      await appendSessionLog(context.sessionID, {
-        ts,
-        event: "memory_forget",
-        scope: args.scope,
-        memory_type: args.type,
-        reason: args.reason,
+      const rows = buildTimeline(selected).filter((row) => {
+        const at = Date.parse(row.ts)
+        if (since !== undefined && at < since) return false
+        if (until !== undefined && at > until) return false
+        if (args.agent && row.log.agent !== args.agent && !row.events.some((e) => e.agent === args.agent)) return false
+        if (args.tool && !row.events.some((e) => e.tool === args.tool)) return false
+        return !args.event || row.events.some((e) => e.event === args.event)
       })
+      if (!rows.length) return "No matching events"
 
-      if (deleted === 0) return `No memories found for ${args.type} in ${args.scope}`
-      return `Deleted ${deleted} ${args.type} memory(s) from ${args.scope}. Reason: ${args.reason}\nDeletions logged to ${runtime.settings.memoryDir}/deletions.logfmt`
+      const limit = args.limit && args.limit > 0 ? args.limit : 100
+      const shown = rows.slice(-limit)
+      const header = shown.length < rows.length ? `${rows.length} entries; showing the last ${limit}` : `${rows.length} entries`
+      return [header, "", ...shown.map((row) => `${row.ts} [${row.log.agent}] ${row.text}`)].join("\n")
     },
   })
 
@@ -553,61 +4205,178 @@ const makeMemoryTools = (runtime: {
     description: "Configure JSONL logger mode independently from memory tools",
     args: {
       enabled: tool.schema.boolean().optional().describe("Enable or disable logger mode"),
-      scopes: tool.schema.array(tool.schema.string()).optional().describe("Scopes to log (empty means all)"),
+      scopes: tool.schema
+        .array(tool.schema.string())
+        .optional()
+        .describe(
+          "What to log: memory scopes (for memory_* events), tool names or event kinds. Empty or * means all; prefix with ! to exclude",
+        ),
       persist: tool.schema.enum(["session", "project", "global"]).optional().describe("Persist mode settings"),
     },
     async execute(args) {
+      const persist = args.persist || "session"
+      const target = persist === "project" ? projectSettingsFile(runtime.projectDir) : GLOBAL_SETTINGS_FILE
+      // Rewriting a file that does not validate would drop whatever could not be read from it.
+      const layer = persist === "session" ? undefined : await readSettingsLayer(persist, target)
+      if (layer?.problems.length) {
+        return `Cannot persist to ${target} until it is fixed:\n${layer.problems.map((problem) => `  ${problem}`).join("\n")}`
+      }
+
       runtime.settings.logger.enabled = args.enabled ?? runtime.settings.logger.enabled
       runtime.settings.logger.scopes = args.scopes ?? runtime.settings.logger.scopes
+      // A persisted change now lives in the file; a session-only one is re-applied after reloads.
+      if (layer) {
+        runtime.loggerOverrides = {}
+      } else {
+        if (args.enabled !== undefined) runtime.loggerOverrides.enabled = args.enabled
+        if (args.scopes) runtime.loggerOverrides.scopes = args.scopes
+      }
 
-      const persist = args.persist || "session"
-      if (persist !== "session") {
-        const target = persist === "project" ? projectSettingsFile(runtime.projectDir) : GLOBAL_SETTINGS_FILE
+      if (layer) {
         await ensureDir(dirname(target))
-        const existing = (await readSettingsFile(target)) || {}
+        const existing = layer.settings || {}
+        // Paths are persisted as written, so placeholders such as ${date} keep working.
+        const unresolved = mergeLayers(await runtime.settingsLayers())
         const merged: SettingsFile = {
           ...existing,
           logger: {
             ...existing.logger,
             enabled: runtime.settings.logger.enabled,
             scopes: runtime.settings.logger.scopes,
-            dir: runtime.settings.logger.dir,
+            dir: existing.logger?.dir || unresolved.logger.dir,
           },
-          memoryDir: existing.memoryDir || runtime.settings.memoryDir,
+          memoryDir: existing.memoryDir || unresolved.memoryDir,
         }
-        await Bun.write(target, `${JSON.stringify(merged, null, 2)}\n`)
+        await writeFileAtomic(target, `${JSON.stringify(merged, null, 2)}\n`)
       }
 
       return `Logger ${runtime.settings.logger.enabled ? "enabled" : "disabled"} (scopes: ${runtime.settings.logger.scopes.length ? runtime.settings.logger.scopes.join(", ") : "all"}, persist: ${persist})`
     },
   })
 
+  const configDoctor = tool({
+    description:
+      "Check the memory-log.json settings: list problems per file, and show every effective setting with the layer it came from",
+    args: {},
+    async execute() {
+      const layers = await runtime.settingsLayers()
+      const problems = layers.flatMap((layer) => layer.problems)
+
+      // The last layer that sets a path (or one of its parents) is where the value came from.
+      const origins = new Map<string, string>()
+      for (const layer of layers) {
+        for (const [path, value] of flattenSettings(layer.settings || {})) {
+          // An object left empty (e.g. after dropping an invalid entry) sets nothing.
+          const empty = value !== null && typeof value === "object" && !Array.isArray(value)
+          if (path && !empty) origins.set(path, layer.name)
+        }
+      }
+      const originOf = (path: string): string => {
+        for (let prefix = path; prefix; prefix = prefix.slice(0, Math.max(0, prefix.lastIndexOf(".")))) {
+          const origin = origins.get(prefix)
+          if (origin) return origin
+        }
+        return "default"
+      }
+      // Values changed since loading, e.g. by memory_logger_set without persist, only live in this session.
+      const fromLayers = new Map(flattenSettings(JSON.parse(settingsToJSON(resolveSettings(runtime.projectDir, layers)))))
+
+      const lines = ["Settings layers (later ones win):", "  default: built-in defaults"]
+      for (const layer of layers) {
+        const status = layer.settings
+          ? layer.problems.length
+            ? `${layer.problems.length} problem(s)`
+            : "ok"
+          : layer.problems.length
+            ? "not applied"
+            : "not found"
+        lines.push(`  ${layer.name}: ${layer.source} (${status})`)
+      }
+      lines.push("", problems.length ? `Problems (${problems.length}):` : "No problems found")
+      lines.push(...problems.map((problem) => `  ${problem}`))
+      lines.push("", "Effective settings:")
+      for (const [path, value] of flattenSettings(JSON.parse(settingsToJSON(runtime.settings)))) {
+        const session = JSON.stringify(fromLayers.get(path)) !== JSON.stringify(value)
+        lines.push(`  ${path} = ${JSON.stringify(value)} (${session ? "session" : originOf(path)})`)
+      }
+      return lines.join("\n")
+    },
+  })
+
   const loggerStatus = tool({
     description: "Show logger and memory storage configuration",
     args: {},
     async execute() {
-      return settingsToJSON(runtime.settings)
+      const { at, reason, from, error } = runtime.settingsLoad
+      const note = error
+        ? `Settings reload after ${reason} failed at ${at} (${error}); still using the previous settings`
+        : `Settings last loaded ${at} after ${reason} from ${from.length ? from.join(", ") : "defaults only"}`
+      return `${note}\n\n${settingsToJSON(runtime.settings)}`
     },
   })
 
+  // The tool objects are what the plugin hands to OpenCode, so they are updated in place.
+  const refreshTypes = () => {
+    remember.description = rememberDescription()
+    remember.args.type = rememberTypeArg()
+    for (const typed of [recall, update, forget, restore, dedupe, exportMemories]) {
+      typed.args.type = typeSchema().optional().describe(typed.args.type.description || "")
+    }
+  }
+
   return {
     memory_remember: remember,
     memory_recall: recall,
     memory_update: update,
     memory_forget: forget,
+    memory_restore: restore,
+    memory_history: history,
+    memory_promote: promote,
+    memory_move_scope: moveScopeTool,
+    memory_by_issue: byIssue,
+    memory_dedupe: dedupe,
+    memory_compact: compact,
+    memory_export: exportMemories,
+    memory_import: importMemories,
     memory_list: listMemories,
+    memory_logs_query: logsQuery,
     memory_logger_set: setLogger,
     memory_logger_status: loggerStatus,
+    memory_config_doctor: configDoctor,
     appendSessionLog,
+    withMemoryLock,
+    refreshTypes,
+    buildDigest: async () => {
+      await sweepAllExpired()
+      const now = Date.now()
+      const memories = (await getAllMemories()).map(({ memory }) => memory).filter((m) => !isExpired(m, now))
+      return buildMemoryDigest(memories, runtime.settings.inject)
+    },
   }
 }
 
 export const MemoryPlugin: Plugin = async (ctx) => {
+  // The inline memory_log settings arrive with the opencode config; reloads and the doctor reuse them.
+  let inlineConfig: unknown
+  const resolve = async (reason: string) => {
+    const layers = await loadSettingsLayers(ctx.directory, inlineConfig)
+    const settings = resolveSettings(ctx.directory, layers)
+    const load: SettingsLoad = {
+      at: new Date().toISOString(),
+      reason,
+      from: layers.filter((layer) => layer.settings).map((layer) => layer.source),
+    }
+    return { settings, load }
+  }
+
+  const initial = await resolve("startup")
   const runtime = {
     projectDir: ctx.directory,
-    settings: await loadSettings(ctx.directory),
+    settings: initial.settings,
+    settingsLoad: initial.load,
     sessionAgents: new Map<string, string>(),
     sessionInfo: new Map<string, SessionInfo>(),
+    loggerOverrides: {} as Partial<Pick<LoggerSettings, "enabled" | "scopes">>,
     client: ctx.client,
   }
 
@@ -640,14 +4409,50 @@ export const MemoryPlugin: Plugin = async (ctx) => {
     }
   }
 
-  const tools = makeMemoryTools({
-    ...runtime,
-    getSessionInfo,
+  // The tools share this runtime object, so swapping its settings reaches them.
+  const tools = makeMemoryTools(
+    Object.assign(runtime, {
+      getSessionInfo,
+      settingsLayers: () => loadSettingsLayers(ctx.directory, inlineConfig),
+    }),
+  )
+
+  // The swap waits for the memory lock, so a write under way finishes in the store it started in.
+  // Session-only memory_logger_set changes are applied again on top of what the files now say.
+  const reload = async (reason: string) => {
+    try {
+      const { settings, load } = await resolve(reason)
+      Object.assign(settings.logger, runtime.loggerOverrides)
+      await tools.withMemoryLock(async () => {
+        runtime.settings = settings
+        runtime.settingsLoad = load
+      })
+      tools.refreshTypes()
+    } catch (error) {
+      runtime.settingsLoad = {
+        ...runtime.settingsLoad,
+        at: new Date().toISOString(),
+        reason,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  let pendingReload: ReturnType<typeof setTimeout> | undefined
+  const watcher = watchSettingsFiles([GLOBAL_SETTINGS_FILE, projectSettingsFile(ctx.directory)], (file) => {
+    clearTimeout(pendingReload)
+    pendingReload = setTimeout(() => void reload(`change to ${file}`), SETTINGS_RELOAD_DEBOUNCE_MS)
+    pendingReload.unref?.()
   })
 
   return {
     config: async (input) => {
-      runtime.settings = await loadSettings(ctx.directory, input)
+      inlineConfig = input
+      await reload("opencode config")
+    },
+    dispose: async () => {
+      clearTimeout(pendingReload)
+      watcher.close()
     },
     "chat.message": async (input, output) => {
       if (input.agent) runtime.sessionAgents.set(input.sessionID, input.agent)
@@ -664,6 +4469,11 @@ export const MemoryPlugin: Plugin = async (ctx) => {
       })
       await tools.appendSessionLog(input.sessionID, event)
     },
+    "experimental.chat.system.transform": async (_input, output) => {
+      if (!runtime.settings.inject.enabled) return
+      const digest = await tools.buildDigest()
+      if (digest) output.system.push(digest)
+    },
     "tool.execute.before": async (input, output) => {
       const info = await getSessionInfo(input.sessionID)
       const event = buildLoggerEvent("tool_execute_before", {
@@ -698,9 +4508,20 @@ export const MemoryPlugin: Plugin = async (ctx) => {
       memory_recall: tools.memory_recall,
       memory_update: tools.memory_update,
       memory_forget: tools.memory_forget,
+      memory_restore: tools.memory_restore,
+      memory_history: tools.memory_history,
+      memory_promote: tools.memory_promote,
+      memory_move_scope: tools.memory_move_scope,
+      memory_by_issue: tools.memory_by_issue,
+      memory_dedupe: tools.memory_dedupe,
+      memory_compact: tools.memory_compact,
+      memory_export: tools.memory_export,
+      memory_import: tools.memory_import,
       memory_list: tools.memory_list,
+      memory_logs_query: tools.memory_logs_query,
       memory_logger_set: tools.memory_logger_set,
       memory_logger_status: tools.memory_logger_status,
+      memory_config_doctor: tools.memory_config_doctor,
     },
   }
 }
@@ -708,8 +4529,34 @@ export const MemoryPlugin: Plugin = async (ctx) => {
 export default MemoryPlugin
 
 export const __test = {
+  parseLine,
+  serializeMemory,
+  encodeLogfmt,
+  decodeLogfmt,
+  encodeList,
+  decodeList,
   expandTemplate,
   buildLoggerEvent,
+  shouldLogEvent,
+  parseSearchQuery,
+  searchMemories,
+  hashedNgramEmbedder,
+  cosine,
+  combineScores,
+  buildMemoryDigest,
+  matchesScope,
+  moveScope,
+  normalizeIssue,
+  parseSessionLog,
+  buildTimeline,
+  redactionRules,
+  redactText,
+  truncateLogFields,
+  pruneSessionLogs,
+  withDirLock,
+  toSettingsLayer,
+  contentSimilarity,
+  classifyConflict,
   settingsFilePaths: (projectDir: string) => ({
     global: GLOBAL_SETTINGS_FILE,
     project: projectSettingsFile(projectDir),